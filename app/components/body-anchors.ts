@@ -0,0 +1,100 @@
+import type {NormalizedLandmark} from "@mediapipe/tasks-vision";
+import type {DominantHand} from "./hand-tracker";
+import type {Point2} from "./motion-templates";
+
+// Places on the body a sign can be made at, derived from the pose landmarker's face and shoulder points.
+// Many LIBRAS signs share a handshape and differ only by where they are made (PENSAR at the forehead,
+// SILÊNCIO at the lips), so sign definitions can ask for the hand to be near one of these.
+//
+// Pose landmarks are named after the signer's own sides ("left shoulder" is the signer's left), unlike the
+// hand landmarker's labels. Cheek, ear and shoulder are kept per side: a hand is matched against its own.
+// Only x and y are used: the pose's depth is relative to the hips, the hands' to their wrists.
+
+export type BodyAnchor = "forehead" | "eyes" | "nose" | "mouth" | "chin" | "cheek" | "ear" | "neck" | "shoulder" | "chest";
+
+// Away from every anchor: the signing space in front of the body
+export type BodyLocation = BodyAnchor | "neutral";
+
+export const BODY_ANCHORS: BodyAnchor[] = ["forehead", "eyes", "nose", "mouth", "chin", "cheek", "ear", "neck", "shoulder", "chest"];
+
+// The anchors seen from either side, in normalised image coordinates; anchors whose landmarks aren't
+// visible (shoulders below the frame, a turned head) are missing
+export type BodyAnchors = Record<DominantHand, Partial<Record<BodyAnchor, Point2>>>;
+
+// MediaPipe pose landmark indices
+const POSE = {
+  nose: 0,
+  eye: {left: 2, right: 5},
+  ear: {left: 7, right: 8},
+  mouth: {left: 9, right: 10},
+  shoulder: {left: 11, right: 12},
+};
+
+const MIN_VISIBILITY = 0.5;
+
+// Proportions of the face from the eyes-to-mouth distance
+const FOREHEAD_ABOVE_EYES = 0.9;
+const CHIN_BELOW_MOUTH = 0.7;
+const CHEST_BELOW_SHOULDERS = 0.8; // of the chin-to-shoulders distance
+
+const lerp = ([ax, ay]: Point2, [bx, by]: Point2, t: number): Point2 => [ax + (bx - ax) * t, ay + (by - ay) * t];
+
+export function bodyAnchors(pose: NormalizedLandmark[] | null | undefined): BodyAnchors | null {
+  if (!pose || pose.length <= POSE.shoulder.right) return null;
+  const at = (index: number): Point2 | null =>
+    (pose[index].visibility ?? 1) >= MIN_VISIBILITY ? [pose[index].x, pose[index].y] : null;
+
+  const anchors: BodyAnchors = {right: {}, left: {}};
+  const both = (anchor: BodyAnchor, point: Point2) => {
+    anchors.right[anchor] = point;
+    anchors.left[anchor] = point;
+  };
+
+  const eyes = [at(POSE.eye.left), at(POSE.eye.right)];
+  const mouth = [at(POSE.mouth.left), at(POSE.mouth.right)];
+  const nose = at(POSE.nose);
+  let chin: Point2 | null = null;
+  if (eyes[0] && eyes[1] && mouth[0] && mouth[1] && nose) {
+    const eyesAt = lerp(eyes[0], eyes[1], 0.5);
+    const mouthAt = lerp(mouth[0], mouth[1], 0.5);
+    chin = lerp(mouthAt, eyesAt, -CHIN_BELOW_MOUTH);
+    both("forehead", lerp(eyesAt, mouthAt, -FOREHEAD_ABOVE_EYES));
+    both("eyes", eyesAt);
+    both("nose", nose);
+    both("mouth", mouthAt);
+    both("chin", chin);
+    for (const side of ["right", "left"] as DominantHand[]) {
+      const ear = at(POSE.ear[side]);
+      const corner = mouth[side === "right" ? 1 : 0]!;
+      if (!ear) continue;
+      anchors[side].ear = ear;
+      anchors[side].cheek = lerp(corner, ear, 0.5);
+    }
+  }
+
+  const shoulders = [at(POSE.shoulder.left), at(POSE.shoulder.right)];
+  if (shoulders[0]) anchors.left.shoulder = shoulders[0];
+  if (shoulders[1]) anchors.right.shoulder = shoulders[1];
+  // The chest is placed below the shoulders by the length of the neck, so it needs the face as well
+  if (shoulders[0] && shoulders[1] && chin) {
+    const middle = lerp(shoulders[0], shoulders[1], 0.5);
+    both("neck", lerp(chin, middle, 0.5));
+    both("chest", lerp(middle, chin, -CHEST_BELOW_SHOULDERS));
+  }
+
+  return Object.keys(anchors.right).length + Object.keys(anchors.left).length > 0 ? anchors : null;
+}
+
+// The anchor nearest to a point, with its distance in normalised image units; null without any anchor
+export function nearestAnchor(
+  body: BodyAnchors,
+  side: DominantHand,
+  [x, y]: Point2
+): { anchor: BodyAnchor; distance: number } | null {
+  let nearest: { anchor: BodyAnchor; distance: number } | null = null;
+  for (const [anchor, [ax, ay]] of Object.entries(body[side]) as [BodyAnchor, Point2][]) {
+    const distance = Math.hypot(x - ax, y - ay);
+    if (!nearest || distance < nearest.distance) nearest = {anchor, distance};
+  }
+  return nearest;
+}
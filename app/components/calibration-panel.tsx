@@ -0,0 +1,70 @@
+import {useState} from "react";
+import {CALIBRATION_STEPS, type CalibrationProfile, type CalibrationStep} from "./calibration";
+
+type CalibrationPanelProps = {
+  profiles: CalibrationProfile[];
+  activeId: string | null;
+  onSelect: (id: string | null) => void;
+  onDelete: (id: string) => void;
+  calibrating: { step: CalibrationStep; index: number; progress: number } | null;
+  canCalibrate: boolean;
+  onStart: (name: string) => void;
+  onCancel: () => void;
+};
+
+// Pick the signer's calibration profile, or walk a new signer through the reference handshapes
+export function CalibrationPanel(props: CalibrationPanelProps) {
+  const {profiles, activeId, calibrating} = props;
+  const [name, setName] = useState("");
+  const active = profiles.find((p) => p.id === activeId) ?? null;
+
+  return (
+    <div className="w-full max-w-[640px] bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+      <div className="flex justify-between items-end mb-4">
+        <h3 className="text-gray-500 text-sm font-bold uppercase tracking-wider">Signer Calibration</h3>
+        <div className="flex gap-2 items-center">
+          <select value={activeId ?? ""} onChange={(e) => props.onSelect(e.target.value || null)}
+                  className="text-sm bg-gray-100 rounded px-2 py-1">
+            <option value="">Default (uncalibrated)</option>
+            {profiles.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          {active && (
+            <button onClick={() => props.onDelete(active.id)} className="text-red-500 text-xs hover:underline">
+              Delete
+            </button>
+          )}
+        </div>
+      </div>
+
+      {calibrating ? (
+        <div>
+          <p className="text-xs text-gray-400 uppercase font-semibold">
+            Step {calibrating.index + 1} of {CALIBRATION_STEPS.length}
+          </p>
+          <p className="text-lg font-bold text-gray-800">{calibrating.step.title}</p>
+          <p className="text-sm text-gray-600">{calibrating.step.instruction}</p>
+          <div className="h-2 bg-gray-100 rounded mt-3 overflow-hidden">
+            <div className="h-full bg-[#007f8b] transition-all duration-75" style={{width: `${calibrating.progress}%`}}/>
+          </div>
+          <button onClick={props.onCancel} className="text-sm text-gray-500 hover:underline mt-3">Cancel</button>
+        </div>
+      ) : (
+        <div className="flex gap-2 items-center">
+          <input value={name} onChange={(e) => setName(e.target.value)} placeholder="Signer name"
+                 className="flex-1 text-sm border border-gray-200 rounded px-2 py-1"/>
+          <button onClick={() => props.onStart(name.trim())} disabled={!name.trim() || !props.canCalibrate}
+                  className="px-3 py-1 bg-[#007f8b] text-white rounded text-sm font-medium disabled:opacity-40">
+            Calibrate
+          </button>
+        </div>
+      )}
+
+      {active && !calibrating && (
+        <p className="text-xs text-gray-400 mt-3">
+          Touch {active.thresholds.contactDistance} · straight ≤ {active.thresholds.extendedMaxCurl} ·
+          curled ≥ {active.thresholds.curledMinCurl} · thumb out {active.thresholds.thumbOutDistance} (palm lengths)
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import {EventEmitter} from "./event-emitter";
+import {
+  DEFAULT_THRESHOLDS,
+  type FeatureThresholds,
+  FINGER_JOINTS,
+  type FingerName,
+  type HandFeatures,
+  landmarkDistance,
+  LONG_FINGERS
+} from "./hand-features";
+
+// Per-signer calibration: the signer holds a few reference handshapes, we measure their hand and
+// derive feature thresholds that sit between the shapes they actually make.
+
+export type CalibrationStepId = "open" | "bent" | "fist" | "pinch";
+
+export type CalibrationStep = {
+  id: CalibrationStepId;
+  title: string;
+  instruction: string;
+};
+
+export const CALIBRATION_STEPS: CalibrationStep[] = [
+  {id: "open", title: "Open hand (5)", instruction: "Hold your hand open, fingers straight and apart, thumb out."},
+  {id: "bent", title: "Curved hand (C)", instruction: "Curve all fingers and the thumb into a C, as if holding a cup."},
+  {id: "fist", title: "Fist (A)", instruction: "Close your fist with the thumb upright against the side of the index."},
+  {id: "pinch", title: "O shape", instruction: "Touch all fingertips to the tip of your thumb, forming an O."},
+];
+
+// Hand proportions, palm lengths (wrist to middle knuckle = 1)
+export type HandMeasurements = {
+  palmWidth: number; // index knuckle to pinky knuckle
+  fingerLengths: Record<string, number>; // knuckle to tip along the finger
+  openCurl: number; // typical curl of straight fingers
+  bentCurl: number;
+  fistCurl: number;
+  thumbOut: number; // thumb tip beyond the index knuckle, thumb held out
+  thumbIn: number; // same, thumb against the fist
+  touchDistance: number; // thumb tip to fingertip when touching
+  apartDistance: number; // thumb tip to index tip with the hand open
+};
+
+export type CalibrationProfile = {
+  id: string;
+  name: string;
+  createdAt: string; // ISO date
+  thresholds: FeatureThresholds;
+  measurements: HandMeasurements;
+};
+
+const FRAMES_PER_STEP = 30;
+const SETTLE_FRAMES = 15; // frames ignored at the start of each step while the signer gets into position
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] ?? 0;
+};
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const fingerLength = (features: HandFeatures, name: FingerName) => {
+  const [a, b, c, d] = FINGER_JOINTS[name];
+  return landmarkDistance(features, a, b) + landmarkDistance(features, b, c) + landmarkDistance(features, c, d);
+};
+
+// Derives the profile's measurements and thresholds from the frames captured at each step
+export function computeCalibration(frames: Record<CalibrationStepId, HandFeatures[]>): {
+  thresholds: FeatureThresholds;
+  measurements: HandMeasurements;
+} {
+  const curls = (step: CalibrationStepId, pick: (curls: number[]) => number) =>
+    median(frames[step].map((f) => pick(LONG_FINGERS.map((name) => f.fingers[name].curl))));
+  const thumbX = (step: CalibrationStepId) => median(frames[step].map((f) => f.points[4].x - f.points[5].x));
+  const tipGap = (step: CalibrationStepId, tips: number[]) =>
+    median(frames[step].map((f) => Math.max(...tips.map((tip) => landmarkDistance(f, 4, tip)))));
+
+  const fingerLengths: Record<string, number> = {};
+  for (const name of LONG_FINGERS) fingerLengths[name] = round(median(frames.open.map((f) => fingerLength(f, name))));
+
+  const measurements: HandMeasurements = {
+    palmWidth: round(median(frames.open.map((f) => landmarkDistance(f, 5, 17)))),
+    fingerLengths,
+    openCurl: round(curls("open", (c) => Math.max(...c))),
+    bentCurl: round(curls("bent", (c) => c.reduce((a, b) => a + b, 0) / c.length)),
+    fistCurl: round(curls("fist", (c) => Math.min(...c))),
+    thumbOut: round(thumbX("open")),
+    thumbIn: round(thumbX("fist")),
+    touchDistance: round(tipGap("pinch", [8, 12])),
+    apartDistance: round(tipGap("open", [8])),
+  };
+
+  // Each threshold sits between the signer's own examples of the two states it separates,
+  // clamped so one sloppy step can't produce a profile that recognises nothing
+  const m = measurements;
+  const thresholds: FeatureThresholds = {
+    extendedMaxCurl: round(clamp(Math.max(m.openCurl + 0.1, (m.openCurl + m.bentCurl) / 2), 0.2, 0.45)),
+    curledMinCurl: round(clamp((m.bentCurl + m.fistCurl) / 2, 0.5, 0.8)),
+    thumbOutDistance: round(clamp((m.thumbOut + m.thumbIn) / 2, 0.15, 0.5)),
+    contactDistance: round(clamp(m.touchDistance + (m.apartDistance - m.touchDistance) * 0.25, 0.2, 0.5)),
+  };
+  return {thresholds, measurements};
+}
+
+export type CalibrationEvents = {
+  progress: { step: CalibrationStep; index: number; progress: number }; // progress 0..100 within the step
+  complete: { thresholds: FeatureThresholds; measurements: HandMeasurements };
+};
+
+// Walks the signer through CALIBRATION_STEPS; feed it the signing hand's features every frame
+export class CalibrationSession extends EventEmitter<CalibrationEvents> {
+  private index = 0;
+  private seen = 0;
+  private readonly frames: Record<CalibrationStepId, HandFeatures[]> = {open: [], bent: [], fist: [], pinch: []};
+
+  get step(): CalibrationStep | null {
+    return CALIBRATION_STEPS[this.index] ?? null;
+  }
+
+  push(features: HandFeatures) {
+    const step = this.step;
+    if (!step) return;
+
+    if (++this.seen <= SETTLE_FRAMES) {
+      this.emit("progress", {step, index: this.index, progress: 0});
+      return;
+    }
+    const frames = this.frames[step.id];
+    frames.push(features);
+    this.emit("progress", {step, index: this.index, progress: (100 * frames.length) / FRAMES_PER_STEP});
+
+    if (frames.length < FRAMES_PER_STEP) return;
+    this.index++;
+    this.seen = 0;
+    if (!this.step) this.emit("complete", computeCalibration(this.frames));
+  }
+}
+
+// --- Profiles (localStorage) ---
+// Several signers can share a kiosk; each keeps a named profile and one is active at a time.
+const STORAGE_KEY = "hand-speak-calibration";
+
+type StoredProfiles = { activeId: string | null; profiles: CalibrationProfile[] };
+
+function readProfiles(): StoredProfiles {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as StoredProfiles | null;
+    if (stored && Array.isArray(stored.profiles)) return stored;
+  } catch {
+    // corrupt or unavailable storage: start over with defaults
+  }
+  return {activeId: null, profiles: []};
+}
+
+function writeProfiles(stored: StoredProfiles) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (e) {
+    console.warn("Could not save calibration profiles", e);
+  }
+}
+
+export function listProfiles(): CalibrationProfile[] {
+  return readProfiles().profiles;
+}
+
+export function getActiveProfile(): CalibrationProfile | null {
+  const {activeId, profiles} = readProfiles();
+  return profiles.find((p) => p.id === activeId) ?? null;
+}
+
+// null switches back to the default thresholds
+export function setActiveProfile(id: string | null) {
+  writeProfiles({...readProfiles(), activeId: id});
+}
+
+export function saveProfile(profile: CalibrationProfile) {
+  const stored = readProfiles();
+  writeProfiles({
+    activeId: profile.id,
+    profiles: [...stored.profiles.filter((p) => p.id !== profile.id), profile],
+  });
+}
+
+export function deleteProfile(id: string) {
+  const stored = readProfiles();
+  writeProfiles({
+    activeId: stored.activeId === id ? null : stored.activeId,
+    profiles: stored.profiles.filter((p) => p.id !== id),
+  });
+}
+
+export function createProfile(name: string, calibration: Pick<CalibrationProfile, "thresholds" | "measurements">): CalibrationProfile {
+  const createdAt = new Date().toISOString();
+  return {id: `${name.replace(/\W+/g, "-").toLowerCase()}-${Date.now()}`, name, createdAt, ...calibration};
+}
+
+export const profileThresholds = (profile: CalibrationProfile | null) => profile?.thresholds ?? DEFAULT_THRESHOLDS;
@@ -0,0 +1,32 @@
+// The webcam, shared by the pages that sign in front of it
+
+// getUserMedia failures, in words the signer can act on
+function cameraErrorMessage(e: unknown): string {
+  switch ((e as DOMException).name) {
+    case "NotAllowedError":
+      return "Camera access was blocked. Allow the camera in the browser's site settings and try again.";
+    case "NotFoundError":
+    case "OverconstrainedError":
+      return "No camera was found. Connect a camera and try again.";
+    case "NotReadableError":
+      return "The camera is in use by another application. Close it and try again.";
+    default:
+      return `The camera could not be started (${(e as Error).message ?? e}).`;
+  }
+}
+
+// Rejects with an error whose message explains what to do
+export async function openCamera(): Promise<MediaStream> {
+  try {
+    if (!navigator.mediaDevices) throw new Error("this page isn't served over HTTPS");
+    return await navigator.mediaDevices.getUserMedia({video: {width: 1280, height: 720}});
+  } catch (e) {
+    throw new Error(cameraErrorMessage(e));
+  }
+}
+
+export function closeCamera(video: HTMLVideoElement | null) {
+  if (!video?.srcObject) return;
+  (video.srcObject as MediaStream).getTracks().forEach((track) => track.stop());
+  video.srcObject = null;
+}
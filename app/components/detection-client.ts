@@ -0,0 +1,150 @@
+import type {Category, NormalizedLandmark} from "@mediapipe/tasks-vision";
+import {EventEmitter} from "./event-emitter";
+import type {FeatureThresholds} from "./hand-features";
+import type {DominantHand, TrackedHand} from "./hand-tracker";
+import type {InputMode} from "./input-modes";
+import type {GestureToken} from "./libras-logic";
+import type {Delegate, DetectionOptions, LoadedAssets} from "./hand-landmarker";
+import type {SmoothingOptions} from "./landmark-filter";
+import type {VotingOptions} from "./token-voting";
+import type {FrameDiagnostics} from "./recognition-diagnostics";
+import type {ClassifierMode, TrainedModel} from "./sign-classifier";
+import type {SignPack} from "./sign-definitions";
+import type {BodyAnchors} from "./body-anchors";
+
+// Hand detection and recognition run in a Web Worker (detection-worker.ts) so the page stays responsive:
+// the page sends video frames as ImageBitmaps and gets landmarks and the recognised token back.
+// With body tracking on, the worker also runs the pose landmarker, for signs made at a place on the body.
+
+export type DetectionConfig = {
+  dominantHand: DominantHand;
+  thresholds: FeatureThresholds;
+  inputMode: InputMode;
+  classifierMode: ClassifierMode;
+  model: TrainedModel | null; // learned handshapes; the worker builds its classifier from it
+  smoothing: SmoothingOptions;
+  voting: VotingOptions;
+  historyMs: number;
+  detection: DetectionOptions; // the landmarker's confidence thresholds
+  bodyTracking: boolean; // run the pose landmarker next to the hands; loaded the first time it is turned on
+  debug: boolean; // send diagnostics with every result
+};
+
+// A tracked hand without its history, which stays in the worker
+export type DetectedHand = Pick<TrackedHand, "id" | "landmarks" | "handedness">;
+
+export type DetectionResult = {
+  time: number; // frame time passed to detect()
+  landmarks: NormalizedLandmark[][]; // raw detection, as recorded in sessions
+  handedness: Category[][];
+  pose: NormalizedLandmark[] | null; // raw pose landmarks, with body tracking on and a body in view
+  hands: { dominant: DetectedHand | null; nonDominant: DetectedHand | null };
+  body: BodyAnchors | null; // face and body places the hands are located by, from the smoothed pose
+  token: GestureToken | null;
+  alternatives: GestureToken[];
+  speed: number; // signing hand, palm lengths per second
+  timings: { detect: number; recognize: number }; // ms spent in the worker on the landmarkers and the recognizer
+  diagnostics: FrameDiagnostics | null; // while debugging, with a signing hand in view
+};
+
+export type DetectionRequest =
+  | { type: "init" }
+  | { type: "configure"; config: Partial<DetectionConfig> }
+  | { type: "registerPack"; pack: SignPack }
+  | { type: "reset" }
+  | { type: "frame"; frame: ImageBitmap; time: number };
+
+export type DetectionResponse =
+  | { type: "ready"; assets: LoadedAssets; delegate: Delegate }
+  | { type: "result"; result: DetectionResult }
+  | { type: "error"; request: DetectionRequest["type"]; message: string } // `request` failed
+  | { type: "bodyUnavailable"; message: string }; // the pose landmarker failed to load: hands only
+
+export type DetectionEvents = {
+  result: DetectionResult;
+  error: { request: DetectionRequest["type"]; message: string };
+  bodyUnavailable: { message: string };
+};
+
+export class DetectionClient extends EventEmitter<DetectionEvents> {
+  private busy = false; // a frame is being processed
+  private readonly ready: Promise<void>;
+  // Where the landmarker came from and what runs it, known once ready
+  assets: LoadedAssets = {wasm: "local", model: "local"};
+  delegate: Delegate = "GPU";
+
+  private constructor(private readonly worker: Worker) {
+    super();
+    this.ready = new Promise((resolve, reject) => {
+      worker.addEventListener("message", ({data}: MessageEvent<DetectionResponse>) => {
+        if (data.type === "ready") {
+          this.assets = data.assets;
+          this.delegate = data.delegate;
+          resolve();
+        }
+        if (data.type === "error") reject(new Error(data.message));
+      }, {once: true});
+      worker.addEventListener("error", (e) => reject(new Error(e.message || "The detection worker failed to start")), {once: true});
+    });
+    worker.addEventListener("message", ({data}: MessageEvent<DetectionResponse>) => {
+      if (data.type === "ready") return;
+      if (data.type === "bodyUnavailable") {
+        this.emit("bodyUnavailable", {message: data.message});
+        return;
+      }
+      // Only the answer to a frame frees the worker for the next one (a failed configure doesn't)
+      if (data.type === "result" || data.request === "frame") this.busy = false;
+      if (data.type === "result") this.emit("result", data.result);
+      else this.emit("error", {request: data.request, message: data.message});
+    });
+    this.post({type: "init"});
+  }
+
+  // Resolves once the worker has loaded the hand landmarker; rejects when it can't, and the worker is gone
+  static async create(): Promise<DetectionClient> {
+    const client = new DetectionClient(new Worker(new URL("./detection-worker.ts", import.meta.url), {type: "module"}));
+    try {
+      await client.ready;
+    } catch (e) {
+      client.terminate();
+      throw e;
+    }
+    return client;
+  }
+
+  private post(request: DetectionRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(request, transfer);
+  }
+
+  configure(config: Partial<DetectionConfig>) {
+    this.post({type: "configure", config});
+  }
+
+  registerPack(pack: SignPack) {
+    this.post({type: "registerPack", pack});
+  }
+
+  // Forget tracked hands and votes, e.g. when the camera restarts
+  reset() {
+    this.post({type: "reset"});
+  }
+
+  // Sends the video's current frame. While the previous frame is still being processed the new one is
+  // dropped rather than queued, so results never lag behind the camera. Returns whether it was sent.
+  async detect(video: HTMLVideoElement, time: number): Promise<boolean> {
+    if (this.busy || video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA) return false;
+    this.busy = true;
+    try {
+      const frame = await createImageBitmap(video);
+      this.post({type: "frame", frame, time}, [frame]);
+      return true;
+    } catch (e) {
+      this.busy = false;
+      throw e;
+    }
+  }
+
+  terminate() {
+    this.worker.terminate();
+  }
+}
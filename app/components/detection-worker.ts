@@ -0,0 +1,112 @@
+import type {PoseLandmarker} from "@mediapipe/tasks-vision";
+import {createHandLandmarker, createPoseLandmarker, DEFAULT_DETECTION, type LoadedLandmarker} from "./hand-landmarker";
+import {Recognizer} from "./recognition-pipeline";
+import {diagnoseFrame} from "./recognition-diagnostics";
+import {registerSignPack} from "./sign-engine";
+import {SignClassifier} from "./sign-classifier";
+import type {DetectedHand, DetectionRequest, DetectionResponse} from "./detection-client";
+import type {TrackedHand} from "./hand-tracker";
+
+// Worker side of DetectionClient: the hand (and pose) landmarkers and the recognizer, one frame at a time.
+
+// tasks-vision loads its wasm glue with importScripts. Module workers define it but throw when it's called, so it's
+// always replaced here with a synchronous load
+const scope = self as unknown as { importScripts: (...urls: string[]) => void };
+scope.importScripts = (...urls: string[]) => {
+  for (const url of urls) {
+    const request = new XMLHttpRequest();
+    request.open("GET", url, false);
+    request.send();
+    (0, eval)(request.responseText);
+  }
+};
+
+let loading: Promise<LoadedLandmarker> | null = null;
+let loaded: LoadedLandmarker | null = null;
+let detection = DEFAULT_DETECTION; // may be configured while the landmarker is still loading
+// The pose landmarker, loaded when body tracking is first turned on; hands keep working when it fails
+let poseLoading: Promise<void> | null = null;
+let poseLandmarker: PoseLandmarker | null = null;
+let bodyTracking = false;
+let debug = false;
+const recognizer = new Recognizer();
+
+const post = (response: DetectionResponse) => self.postMessage(response);
+
+const detectedHand = (hand: TrackedHand | null): DetectedHand | null =>
+  hand && {id: hand.id, landmarks: hand.landmarks, handedness: hand.handedness};
+
+async function handle(request: DetectionRequest) {
+  switch (request.type) {
+    case "init":
+      loading ??= createHandLandmarker(detection);
+      loaded = await loading;
+      post({type: "ready", assets: loaded.assets, delegate: loaded.delegate});
+      break;
+    case "configure": {
+      const {
+        model, smoothing, voting, historyMs, detection: options, bodyTracking: tracking, debug: debugging, ...settings
+      } = request.config;
+      if (debugging !== undefined) debug = debugging;
+      if (tracking !== undefined) {
+        bodyTracking = tracking;
+        if (tracking) poseLoading ??= loadPoseLandmarker();
+      }
+      Object.assign(recognizer, settings);
+      if (model !== undefined) recognizer.classifier = model && new SignClassifier(model);
+      if (smoothing) recognizer.setSmoothing(smoothing);
+      if (voting) recognizer.setVoting(voting);
+      if (historyMs !== undefined) recognizer.setHistoryWindow(historyMs);
+      if (options) {
+        detection = options;
+        await loaded?.landmarker.setOptions(options);
+      }
+      break;
+    }
+    case "registerPack":
+      registerSignPack(request.pack);
+      break;
+    case "reset":
+      recognizer.reset();
+      break;
+    case "frame": {
+      const {frame, time} = request;
+      try {
+        if (!loaded) throw new Error("The hand landmarker is not loaded");
+        const started = performance.now();
+        const {landmarks, handedness} = loaded.landmarker.detectForVideo(frame, time);
+        const bodyPose = bodyTracking && poseLandmarker ? poseLandmarker.detectForVideo(frame, time).landmarks[0] ?? null : null;
+        const detected = performance.now();
+        const recognition = recognizer.process(landmarks, handedness, time, bodyPose);
+        const {hands, token, alternatives, speed} = recognition;
+        const timings = {detect: detected - started, recognize: performance.now() - detected};
+        post({
+          type: "result",
+          result: {
+            time, landmarks, handedness, pose: bodyPose, token, alternatives, speed, timings,
+            hands: {dominant: detectedHand(hands.dominant), nonDominant: detectedHand(hands.nonDominant)},
+            body: recognition.body,
+            diagnostics: debug ? diagnoseFrame(recognition, recognizer.thresholds) : null,
+          },
+        });
+      } finally {
+        frame.close();
+      }
+      break;
+    }
+  }
+}
+
+// After the hand landmarker, which the page waits for first; a failure is reported once and body tracking stays off
+async function loadPoseLandmarker() {
+  try {
+    await loading;
+    poseLandmarker = (await createPoseLandmarker()).landmarker;
+  } catch (e) {
+    if (loaded) post({type: "bodyUnavailable", message: (e as Error).message ?? String(e)});
+  }
+}
+
+self.onmessage = ({data}: MessageEvent<DetectionRequest>) => {
+  handle(data).catch((e) => post({type: "error", request: data.type, message: (e as Error).message ?? String(e)}));
+};
@@ -0,0 +1,67 @@
+import {type ReactNode, Suspense, use, useEffect, useState} from "react";
+import {DetectionClient} from "./detection-client";
+
+// Loads the detection worker once for every page that needs it, shows "Loading AI..." meanwhile, and explains
+// what went wrong (with a Retry) when the hand landmarker can't be loaded.
+
+// Resolves to the error when the landmarker can't load, so the page can show it and retry
+let detectorPromise: Promise<DetectionClient | Error> | null = null;
+
+function getDetector() {
+  if (!detectorPromise) detectorPromise = DetectionClient.create().catch((e) => e as Error);
+  return detectorPromise;
+}
+
+type DetectorBoundaryProps = {
+  children: (detector: DetectionClient) => ReactNode;
+};
+
+const loading = <div className="text-center mt-20">Loading AI...</div>;
+
+export function DetectorBoundary({children}: DetectorBoundaryProps) {
+  // Bumped by Retry: remounting the Suspense boundary loads the detector again
+  const [attempt, setAttempt] = useState(0);
+  // The detector only loads in the browser: the server (and hydration) render the loading state
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  function retry() {
+    detectorPromise = null;
+    setAttempt((n) => n + 1);
+  }
+
+  if (!mounted) return loading;
+  return (
+    <Suspense key={attempt} fallback={loading}>
+      <DetectorGate onRetry={retry}>{children}</DetectorGate>
+    </Suspense>
+  );
+}
+
+function DetectorGate({onRetry, children}: DetectorBoundaryProps & { onRetry: () => void }) {
+  const detector = use(getDetector());
+  if (!(detector instanceof Error)) return children(detector);
+  return (
+    <div className="max-w-[640px] mx-auto mt-12 bg-white rounded-xl shadow-lg p-6 border border-red-200">
+      <h3 className="text-red-600 font-bold mb-2">The hand tracker could not be loaded</h3>
+      <p className="text-sm text-gray-600">
+        Hand tracking needs the MediaPipe runtime and its hand model. They are served by this site, with the
+        MediaPipe CDN as a fallback, and kept for offline use after the first visit.
+      </p>
+      <ul className="list-disc list-inside text-sm text-gray-600 mt-2">
+        <li>If this is the first visit, check the internet connection.</li>
+        <li>Networks that block cdn.jsdelivr.net or storage.googleapis.com need the site to serve its own copy
+          (<code>npm run assets</code> before building).</li>
+        <li>Use an up-to-date Chrome, Edge, Firefox or Safari: WebAssembly is required.</li>
+      </ul>
+      <details className="mt-3 text-xs text-gray-400">
+        <summary className="cursor-pointer">Details</summary>
+        <p className="mt-1 font-mono break-words">{detector.message}</p>
+      </details>
+      <button onClick={onRetry} className="mt-4 bg-[#007f8b] text-white px-4 py-2 rounded font-bold">Retry</button>
+    </div>
+  );
+}
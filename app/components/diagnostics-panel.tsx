@@ -0,0 +1,130 @@
+import type {FrameDiagnostics} from "./recognition-diagnostics";
+
+// Recognition debugging: a text overlay on the camera with what the recognizer sees on this frame, and a
+// panel plotting the recognised token's confidence over the last seconds.
+
+export type ConfidenceSample = {
+  t: number; // frame time, ms
+  value: string | null; // recognised token after voting, null without one
+  confidence: number; // of that token
+  raw: number; // confidence of this frame's best candidate on its own
+};
+
+export type PerformanceStats = {
+  fps: number; // processed frames per second
+  latency: number; // ms from grabbing a frame to its result
+  detect: number; // ms in the landmarker
+  recognize: number; // ms in the recognizer
+};
+
+export const DIAGNOSTICS_WINDOW_MS = 10000; // span of the confidence plot
+
+const formatStats = ({fps, latency, detect, recognize}: PerformanceStats) =>
+  `${fps} fps · ${Math.round(latency)}ms latency (landmarker ${Math.round(detect)}ms, recognizer ${recognize.toFixed(1)}ms)`;
+
+const STATE_LABELS = {extended: "open", bent: "bent", curled: "closed"};
+
+// Drawn over the camera, top left
+export function DiagnosticsOverlay({frame, stats}: { frame: FrameDiagnostics | null; stats: PerformanceStats }) {
+  return (
+    <div className="absolute top-2 left-2 z-30 max-w-[60%] bg-black/60 text-white text-[10px] leading-tight font-mono rounded p-2 pointer-events-none">
+      <p>{formatStats(stats)}</p>
+      {!frame ? (
+        <p className="text-white/60 mt-1">No signing hand</p>
+      ) : (
+        <>
+          <p className="mt-1">
+            {Object.entries(frame.fingers).map(([name, {state, curl, extended}]) => (
+              <span key={name} className={`mr-2 ${state === "extended" ? "text-green-300" : state === "bent" ? "text-yellow-300" : "text-red-300"}`}>
+                {name} {STATE_LABELS[state]}{name === "thumb" && extended ? " out" : ""} {curl.toFixed(2)}
+              </span>
+            ))}
+          </p>
+          <p className="mt-1">
+            {frame.distances.map(({label, value, threshold}) => (
+              <span key={label} className={`mr-2 ${value < threshold ? "text-green-300" : ""}`}>
+                {label} {value.toFixed(2)}/{threshold.toFixed(2)}
+              </span>
+            ))}
+          </p>
+          <p className="mt-1">
+            palm {frame.orientation.facing}, pointing {frame.orientation.pointing}, {!frame.location ? "no body in view" :
+            frame.location.location === "neutral" ? "away from the body" :
+              `at the ${frame.location.location} ${frame.location.distance.toFixed(2)}`}
+          </p>
+          <p className="mt-1">
+            fired: {frame.matched.length === 0 ? "—" : frame.matched.map(({signId, token}, i) => (
+            <span key={signId} className={i === 0 ? "text-green-300" : "text-white/60"}>
+              {i > 0 && ", "}{signId} {token.confidence.toFixed(2)}
+            </span>
+          ))}
+          </p>
+          {frame.nearMisses.map(({signId, failures}) => (
+            <p key={signId} className="text-yellow-200">almost {signId}: {failures.join("; ")}</p>
+          ))}
+          <p className="mt-1">
+            movement {Math.round(frame.motion.coveredMs)}/{frame.motion.windowMs}ms, {frame.motion.frames} frames
+          </p>
+        </>
+      )}
+    </div>
+  );
+}
+
+const COLORS = ["#007f8b", "#e67e22", "#8e44ad", "#27ae60", "#c0392b", "#2980b9", "#d35400", "#16a085"];
+
+const colorOf = (value: string) => COLORS[[...value].reduce((sum, c) => sum + c.charCodeAt(0), 0) % COLORS.length];
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const TOP = 14; // room for the token labels
+
+type DiagnosticsPanelProps = {
+  samples: ConfidenceSample[];
+  stats: PerformanceStats;
+  highConfidence: number; // early lock threshold, drawn as a line
+};
+
+// Confidence over time, one coloured run per recognised token; the grey line is the frame's own best candidate
+export function DiagnosticsPanel({samples, stats, highConfidence}: DiagnosticsPanelProps) {
+  const end = samples[samples.length - 1]?.t ?? 0;
+  const x = (t: number) => WIDTH - ((end - t) / DIAGNOSTICS_WINDOW_MS) * WIDTH;
+  const y = (confidence: number) => TOP + (1 - confidence) * (HEIGHT - TOP);
+  const points = (run: ConfidenceSample[], pick: (s: ConfidenceSample) => number) =>
+    run.map((s) => `${x(s.t).toFixed(1)},${y(pick(s)).toFixed(1)}`).join(" ");
+
+  // Consecutive samples of the same token
+  const runs: ConfidenceSample[][] = [];
+  for (const sample of samples) {
+    const run = runs[runs.length - 1];
+    if (run && run[0].value === sample.value) run.push(sample);
+    else runs.push([sample]);
+  }
+
+  return (
+    <div className="w-full max-w-[640px] bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+      <div className="flex justify-between items-end mb-2">
+        <h3 className="text-gray-500 text-sm font-bold uppercase tracking-wider">Recognition Confidence</h3>
+        <span className="text-xs text-gray-400 font-mono">{formatStats(stats)}</span>
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-40 bg-gray-50 rounded">
+        {[0.25, 0.5, 0.75].map((level) => (
+          <line key={level} x1={0} x2={WIDTH} y1={y(level)} y2={y(level)} stroke="#e5e7eb"/>
+        ))}
+        <line x1={0} x2={WIDTH} y1={y(highConfidence)} y2={y(highConfidence)} stroke="#9ca3af" strokeDasharray="4 4"/>
+        <text x={4} y={y(highConfidence) - 3} fontSize={9} fill="#9ca3af">early lock {highConfidence}</text>
+        <polyline points={points(samples, (s) => s.raw)} fill="none" stroke="#9ca3af" strokeWidth={1}/>
+        {runs.filter((run) => run[0].value !== null).map((run) => (
+          <g key={run[0].t}>
+            <polyline points={points(run, (s) => s.confidence)} fill="none" stroke={colorOf(run[0].value!)} strokeWidth={2}/>
+            <text x={x(run[0].t)} y={10} fontSize={10} fontWeight="bold" fill={colorOf(run[0].value!)}>{run[0].value}</text>
+          </g>
+        ))}
+      </svg>
+      <p className="text-xs text-gray-400 mt-2">
+        Last {DIAGNOSTICS_WINDOW_MS / 1000}s. Coloured: the recognised sign after voting. Grey: each frame's best match
+        on its own. Dashed: confidence needed for the early lock.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,17 @@
+// Minimal typed event emitter: `Events` maps each event name to its payload type
+export type Listener<T> = (payload: T) => void;
+
+export class EventEmitter<Events extends Record<string, unknown>> {
+  private listeners: { [K in keyof Events]?: Set<Listener<Events[K]>> } = {};
+
+  // Returns an unsubscribe function
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    const set = (this.listeners[event] ??= new Set());
+    set.add(listener);
+    return () => set.delete(listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]) {
+    this.listeners[event]?.forEach((listener) => listener(payload));
+  }
+}
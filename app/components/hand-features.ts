@@ -0,0 +1,211 @@
+import type {Category, NormalizedLandmark} from "@mediapipe/tasks-vision";
+
+// Pose features that don't depend on where the hand is in the image, how big it is, how it is
+// rotated, or which hand it is. Analyzers should work on these instead of raw screen coordinates.
+
+export type Vec3 = { x: number; y: number; z: number };
+
+export type FingerName = "thumb" | "index" | "middle" | "ring" | "pinky";
+export const FINGERS: FingerName[] = ["thumb", "index", "middle", "ring", "pinky"];
+export const LONG_FINGERS: FingerName[] = ["index", "middle", "ring", "pinky"];
+
+// MediaPipe landmark indices, base to tip (thumb: CMC, MCP, IP, TIP; fingers: MCP, PIP, DIP, TIP)
+export const WRIST = 0;
+export const FINGER_JOINTS: Record<FingerName, [number, number, number, number]> = {
+  thumb: [1, 2, 3, 4],
+  index: [5, 6, 7, 8],
+  middle: [9, 10, 11, 12],
+  ring: [13, 14, 15, 16],
+  pinky: [17, 18, 19, 20],
+};
+
+export type FingerState = "extended" | "bent" | "curled";
+export type ScreenDirection = "up" | "down" | "side" | "forward";
+
+export type FingerFeatures = {
+  flexion: [number, number, number]; // degrees at the three joints (0 = straight)
+  curl: number; // 0 = straight .. 1 = fully curled
+  state: FingerState;
+  extended: boolean; // thumb: straight and held out from the palm
+  direction: Vec3; // unit vector base -> tip, palm frame
+  pointing: ScreenDirection; // where the finger points on screen
+};
+
+export type PalmFacing = "camera" | "away" | "up" | "down" | "side";
+
+export type PalmOrientation = {
+  normal: Vec3; // unit vector out of the palm, camera space
+  up: Vec3; // unit vector wrist -> middle knuckle, camera space
+  facing: PalmFacing;
+  pointing: ScreenDirection;
+};
+
+export type HandFeatures = {
+  // Landmarks in the palm frame: origin at the wrist, +y towards the middle knuckle, +x towards the
+  // thumb side, +z out of the palm. Distances are in palm lengths (wrist to middle knuckle = 1),
+  // and left hands map onto the same frame as right hands.
+  points: Vec3[];
+  scale: number; // palm length in normalised image units
+  fingers: Record<FingerName, FingerFeatures>;
+  // angles between neighbouring fingers in the palm plane, degrees
+  spread: { thumbIndex: number; indexMiddle: number; middleRing: number; ringPinky: number };
+  orientation: PalmOrientation;
+  thresholds: FeatureThresholds; // used to classify this hand
+};
+
+// Tunable feature thresholds (palm lengths / curl 0..1). The defaults suit most hands; a calibration
+// profile replaces them with values measured on one signer.
+export type FeatureThresholds = {
+  contactDistance: number; // two points closer than this are touching
+  extendedMaxCurl: number;
+  curledMinCurl: number;
+  thumbOutDistance: number; // thumb tip this far beyond the index knuckle is "out"
+};
+
+export const DEFAULT_THRESHOLDS: FeatureThresholds = {
+  contactDistance: 0.35,
+  extendedMaxCurl: 0.3,
+  curledMinCurl: 0.6,
+  thumbOutDistance: 0.3,
+};
+
+// --- Vector helpers ---
+const sub = (a: Vec3, b: Vec3): Vec3 => ({x: a.x - b.x, y: a.y - b.y, z: a.z - b.z});
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Vec3, b: Vec3): Vec3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+const scale = (a: Vec3, s: number): Vec3 => ({x: a.x * s, y: a.y * s, z: a.z * s});
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+const normalize = (a: Vec3): Vec3 => {
+  const len = length(a);
+  return len > 0 ? scale(a, 1 / len) : {x: 0, y: 0, z: 0};
+};
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+// Angle between two vectors, degrees
+export function angleBetween(a: Vec3, b: Vec3): number {
+  const denom = length(a) * length(b);
+  if (denom === 0) return 0;
+  return toDegrees(Math.acos(Math.max(-1, Math.min(1, dot(a, b) / denom))));
+}
+
+// Bend at joint `b` of the chain a -> b -> c (0 when the segments are collinear)
+const flexionAt = (a: Vec3, b: Vec3, c: Vec3) => angleBetween(sub(b, a), sub(c, b));
+
+function classifyDirection(v: Vec3): ScreenDirection {
+  const ax = Math.abs(v.x), ay = Math.abs(v.y), az = Math.abs(v.z);
+  if (az > ax && az > ay) return "forward";
+  if (ay >= ax) return v.y < 0 ? "up" : "down"; // image y grows downwards
+  return "side";
+}
+
+function classifyFacing(normal: Vec3): PalmFacing {
+  const ax = Math.abs(normal.x), ay = Math.abs(normal.y), az = Math.abs(normal.z);
+  if (az >= ax && az >= ay) return normal.z < 0 ? "camera" : "away"; // MediaPipe z shrinks towards the camera
+  if (ay >= ax) return normal.y < 0 ? "up" : "down";
+  return "side";
+}
+
+export function extractHandFeatures(
+  landmarks: NormalizedLandmark[],
+  handedness: Category,
+  thresholds: FeatureThresholds = DEFAULT_THRESHOLDS
+): HandFeatures {
+  const raw: Vec3[] = landmarks.map((l) => ({x: l.x, y: l.y, z: l.z}));
+  const wrist = raw[WRIST];
+
+  // Palm frame from the wrist and the index/middle/pinky knuckles
+  const upRaw = sub(raw[9], wrist);
+  const palmScale = length(upRaw) || 1;
+  const up = normalize(upRaw);
+  const across = sub(raw[5], raw[17]); // pinky side -> index side
+  const side = normalize(sub(across, scale(up, dot(across, up))));
+  // side x up points out of the palm of a "Left" hand and out of the back of a "Right" one
+  // (MediaPipe labels assume a mirrored image); flip so +z is always out of the palm
+  const isRightHand = handedness.displayName === "Right";
+  const normal = isRightHand ? cross(up, side) : cross(side, up);
+
+  const points = raw.map((p) => {
+    const d = sub(p, wrist);
+    return {x: dot(d, side) / palmScale, y: dot(d, up) / palmScale, z: dot(d, normal) / palmScale};
+  });
+
+  const fingerFeatures = (name: FingerName): FingerFeatures => {
+    const [a, b, c, d] = FINGER_JOINTS[name];
+    const flexion: [number, number, number] = [
+      flexionAt(points[WRIST], points[a], points[b]),
+      flexionAt(points[a], points[b], points[c]),
+      flexionAt(points[b], points[c], points[d]),
+    ];
+    // Thumb curl comes from its MCP and IP joints; the other fingers also fold at the knuckle
+    const curl = name === "thumb"
+      ? Math.min(1, (flexion[1] + flexion[2]) / 120)
+      : Math.min(1, (flexion[0] * 0.5 + flexion[1] + flexion[2]) / 220);
+    const state: FingerState = curl <= thresholds.extendedMaxCurl ? "extended"
+      : curl >= thresholds.curledMinCurl ? "curled" : "bent";
+
+    const extended = name === "thumb"
+      ? state === "extended" && points[d].x - points[5].x > thresholds.thumbOutDistance
+      : state === "extended";
+
+    return {
+      flexion,
+      curl,
+      state,
+      extended,
+      direction: normalize(sub(points[d], points[a])),
+      pointing: classifyDirection(sub(raw[d], raw[a])),
+    };
+  };
+
+  const fingers = {} as Record<FingerName, FingerFeatures>;
+  for (const name of FINGERS) fingers[name] = fingerFeatures(name);
+
+  // Spread: angle between finger directions projected onto the palm plane
+  const planar = (name: FingerName): Vec3 => ({...fingers[name].direction, z: 0});
+  const spreadBetween = (a: FingerName, b: FingerName) => angleBetween(planar(a), planar(b));
+
+  return {
+    points,
+    scale: palmScale,
+    fingers,
+    spread: {
+      thumbIndex: spreadBetween("thumb", "index"),
+      indexMiddle: spreadBetween("index", "middle"),
+      middleRing: spreadBetween("middle", "ring"),
+      ringPinky: spreadBetween("ring", "pinky"),
+    },
+    orientation: {
+      normal,
+      up,
+      facing: classifyFacing(normal),
+      pointing: classifyDirection(up),
+    },
+    thresholds,
+  };
+}
+
+// Distance between two landmarks, in palm lengths
+export function landmarkDistance(features: HandFeatures, a: number, b: number): number {
+  return length(sub(features.points[a], features.points[b]));
+}
+
+// Thumb straight and held flat along the index finger (G/Q), rather than out to the side or across the palm
+export function isThumbAlongIndex(features: HandFeatures): boolean {
+  const {fingers, points, spread} = features;
+  return fingers.thumb.state === "extended" && !fingers.thumb.extended && spread.thumbIndex < 30 &&
+    points[4].x > points[5].x - 0.05 && points[4].y > points[5].y;
+}
+
+// True when two landmarks (e.g. fingertips) touch
+export function isTouching(
+  features: HandFeatures,
+  a: number,
+  b: number,
+  threshold = features.thresholds.contactDistance
+): boolean {
+  return landmarkDistance(features, a, b) < threshold;
+}
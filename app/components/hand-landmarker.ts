@@ -0,0 +1,116 @@
+import {FilesetResolver, HandLandmarker, PoseLandmarker} from "@mediapipe/tasks-vision";
+
+// The installed @mediapipe/tasks-vision version (vite.config.ts): its JS only works with the wasm of the same release
+declare const __TASKS_VISION_VERSION__: string;
+
+// Served by the app itself (see `npm run assets`), so it works offline and behind filtered networks;
+// the CDN copies are the fallback while the local model hasn't been downloaded
+const ASSET_SOURCES = {
+  local: {
+    wasm: "/mediapipe/wasm",
+    model: "/mediapipe/hand_landmarker.task",
+    poseModel: "/mediapipe/pose_landmarker_lite.task",
+  },
+  cdn: {
+    wasm: `https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@${__TASKS_VISION_VERSION__}/wasm`,
+    model: "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
+    poseModel: "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task",
+  },
+};
+
+// Everything the landmarkers may fetch from the app (tasks-vision picks the SIMD or non-SIMD runtime),
+// for the service worker to keep for offline use
+export const LOCAL_ASSET_URLS = [
+  ...["vision_wasm_internal", "vision_wasm_nosimd_internal"].flatMap((name) =>
+    [".js", ".wasm"].map((extension) => `${ASSET_SOURCES.local.wasm}/${name}${extension}`)
+  ),
+  ASSET_SOURCES.local.model,
+  ASSET_SOURCES.local.poseModel,
+];
+
+export type AssetSource = keyof typeof ASSET_SOURCES;
+
+// Where the runtime and the model were loaded from
+export type LoadedAssets = { wasm: AssetSource; model: AssetSource };
+
+// The local runtime first, with the CDN model when only the local model is missing; the CDN runtime last
+const LOAD_ORDER: LoadedAssets[] = [
+  {wasm: "local", model: "local"},
+  {wasm: "local", model: "cdn"},
+  {wasm: "cdn", model: "cdn"},
+];
+export type Delegate = "GPU" | "CPU";
+
+// Confidence thresholds of the landmarker, adjustable while it runs
+export type DetectionOptions = {
+  minHandDetectionConfidence: number; // a hand is found in the frame
+  minHandPresenceConfidence: number; // a tracked hand is still there
+  minTrackingConfidence: number; // below this the hand is searched for again
+};
+
+export const DEFAULT_DETECTION: DetectionOptions = {
+  minHandDetectionConfidence: 0.5,
+  minHandPresenceConfidence: 0.5,
+  minTrackingConfidence: 0.5,
+};
+
+export type LoadedLandmarker<T = HandLandmarker> = {
+  landmarker: T;
+  assets: LoadedAssets;
+  delegate: Delegate; // CPU when WebGL isn't available, or failed to start
+};
+
+type WasmFileset = Awaited<ReturnType<typeof FilesetResolver.forVisionTasks>>;
+
+// Local assets before the CDN, the GPU before the CPU; throws with every failure when nothing works
+async function loadLandmarker<T>(
+  name: string,
+  create: (vision: WasmFileset, sources: typeof ASSET_SOURCES.local, delegate: Delegate) => Promise<T>
+): Promise<LoadedLandmarker<T>> {
+  const failures: string[] = [];
+  for (const assets of LOAD_ORDER) {
+    for (const delegate of ["GPU", "CPU"] as Delegate[]) {
+      try {
+        const vision = await FilesetResolver.forVisionTasks(ASSET_SOURCES[assets.wasm].wasm);
+        const landmarker = await create(vision, ASSET_SOURCES[assets.model], delegate);
+        return {landmarker, assets, delegate};
+      } catch (e) {
+        failures.push(`${assets.wasm} runtime, ${assets.model} model, ${delegate}: ${errorMessage(e)}`);
+      }
+    }
+  }
+  throw new Error(`The ${name} could not be loaded (${failures.join("; ")})`);
+}
+
+// Two hands in video mode. Each instance needs increasing timestamps, so the live camera and a video file
+// being captioned (whose timestamps start at 0) use separate instances.
+export function createHandLandmarker(detection: DetectionOptions = DEFAULT_DETECTION): Promise<LoadedLandmarker> {
+  return loadLandmarker("hand landmarker", (vision, {model}, delegate) =>
+    HandLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        modelAssetPath: model,
+        delegate,
+      },
+      runningMode: "VIDEO",
+      numHands: 2,
+      ...detection,
+    }));
+}
+
+// One body in video mode, for where the hands are relative to the face and shoulders (see body-anchors.ts).
+// The lite model: only the head and shoulders are looked at, and it runs on every frame next to the hands.
+export function createPoseLandmarker(): Promise<LoadedLandmarker<PoseLandmarker>> {
+  return loadLandmarker("pose landmarker", (vision, {poseModel}, delegate) =>
+    PoseLandmarker.createFromOptions(vision, {
+      baseOptions: {
+        modelAssetPath: poseModel,
+        delegate,
+      },
+      runningMode: "VIDEO",
+      numPoses: 1,
+    }));
+}
+
+// MediaPipe rejects with events and strings as well as errors
+const errorMessage = (e: unknown) =>
+  e instanceof Error ? e.message : e instanceof Event ? `${e.type} event` : String(e);
@@ -0,0 +1,370 @@
+import type {Category, NormalizedLandmark} from "@mediapipe/tasks-vision";
+import {
+  DEFAULT_THRESHOLDS,
+  FINGER_JOINTS,
+  type FingerName,
+  landmarkDistance,
+  type ScreenDirection,
+  type Vec3
+} from "./hand-features";
+import {explainSign, featuresOf} from "./sign-engine";
+import {
+  type FingerSpec,
+  type HandshapeSpec,
+  landmarkIndex,
+  type SignDefinition,
+  type ThumbPosition
+} from "./sign-definitions";
+
+// Hand poses for showing signs (text to LIBRAS). A pose is a handful of joint angles; forward kinematics turns
+// it into the 21 MediaPipe landmarks, so a rendered hand is drawn like a tracked one and can be checked by the
+// same recognizer. Poses aren't drawn by hand for every sign: they are derived from the sign's handshape spec,
+// then adjusted joint by joint until the sign engine recognises them.
+
+type LongFinger = "index" | "middle" | "ring" | "pinky";
+const LONG: LongFinger[] = ["index", "middle", "ring", "pinky"];
+
+export type HandPose = {
+  fingers: Record<LongFinger, [number, number, number]>; // flexion at the knuckle, middle and end joints, degrees
+  spread: Record<LongFinger, number>; // sideways from the palm's axis, towards the thumb, degrees
+  thumb: {
+    abduction: number; // away from the index in the palm plane, degrees
+    opposition: number; // out of the palm plane, in front of the palm
+    flexion: [number, number]; // at the thumb's MCP and IP joints
+  };
+  roll: number; // turned in the image plane; 0 = fingers up, 90 = towards the image's right
+  pitch: number; // fingers tilted towards the camera
+  yaw: number; // turned about the hand's own axis; 0 = palm to the camera
+};
+
+// Hand geometry in the palm frame of hand-features: wrist at the origin, palm length 1 (wrist to middle
+// knuckle), +y along the palm, +x towards the thumb, +z out of the palm
+const KNUCKLES: Record<LongFinger, Vec3> = {
+  index: {x: 0.3, y: 0.95, z: 0},
+  middle: {x: 0, y: 1, z: 0},
+  ring: {x: -0.22, y: 0.95, z: 0},
+  pinky: {x: -0.42, y: 0.85, z: 0},
+};
+const SEGMENTS: Record<LongFinger | "thumb", number[]> = {
+  thumb: [0.35, 0.3, 0.25],
+  index: [0.4, 0.25, 0.2],
+  middle: [0.45, 0.27, 0.22],
+  ring: [0.4, 0.25, 0.2],
+  pinky: [0.32, 0.2, 0.18],
+};
+const THUMB_BASE: Vec3 = {x: 0.22, y: 0.2, z: 0.05};
+const THUMB_BENDS_TOWARDS: Vec3 = {x: -0.6, y: 0, z: 0.8}; // across the palm
+
+// --- Vector helpers ---
+const add = (a: Vec3, b: Vec3): Vec3 => ({x: a.x + b.x, y: a.y + b.y, z: a.z + b.z});
+const scale = (a: Vec3, s: number): Vec3 => ({x: a.x * s, y: a.y * s, z: a.z * s});
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const cross = (a: Vec3, b: Vec3): Vec3 => ({
+  x: a.y * b.z - a.z * b.y,
+  y: a.z * b.x - a.x * b.z,
+  z: a.x * b.y - a.y * b.x,
+});
+const normalize = (a: Vec3): Vec3 => scale(a, 1 / (Math.sqrt(dot(a, a)) || 1));
+const radians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Rotates `v` about the unit axis `k` (Rodrigues)
+function rotate(v: Vec3, k: Vec3, degrees: number): Vec3 {
+  const cos = Math.cos(radians(degrees));
+  const sin = Math.sin(radians(degrees));
+  return add(add(scale(v, cos), scale(cross(k, v), sin)), scale(k, dot(k, v) * (1 - cos)));
+}
+
+// --- Forward kinematics ---
+
+// The 21 landmarks in the palm frame
+function palmPoints(pose: HandPose): Vec3[] {
+  const points: Vec3[] = new Array(21);
+  points[0] = {x: 0, y: 0, z: 0};
+
+  // Thumb: leaves the palm by its abduction and opposition, each joint bends it across the palm
+  let direction: Vec3 = {
+    x: Math.sin(radians(pose.thumb.abduction)) * Math.cos(radians(pose.thumb.opposition)),
+    y: Math.cos(radians(pose.thumb.abduction)) * Math.cos(radians(pose.thumb.opposition)),
+    z: Math.sin(radians(pose.thumb.opposition)),
+  };
+  points[1] = THUMB_BASE;
+  SEGMENTS.thumb.forEach((length, i) => {
+    if (i > 0) {
+      const axis = cross(direction, THUMB_BENDS_TOWARDS);
+      if (dot(axis, axis) > 1e-9) direction = rotate(direction, normalize(axis), pose.thumb.flexion[i - 1]);
+    }
+    points[2 + i] = add(points[1 + i], scale(direction, length));
+  });
+
+  // Fingers: spread in the palm plane, curled towards the palm joint by joint
+  for (const finger of LONG) {
+    const [mcp] = FINGER_JOINTS[finger];
+    const spread = radians(pose.spread[finger]);
+    points[mcp] = KNUCKLES[finger];
+    let angle = 0;
+    SEGMENTS[finger].forEach((length, i) => {
+      angle += radians(pose.fingers[finger][i]);
+      const segment = {
+        x: Math.sin(spread) * Math.cos(angle),
+        y: Math.cos(spread) * Math.cos(angle),
+        z: Math.sin(angle),
+      };
+      points[mcp + 1 + i] = add(points[mcp + i], scale(segment, length));
+    });
+  }
+  return points;
+}
+
+export type HandPlacement = {
+  handedness: "Left" | "Right"; // MediaPipe's label: "Left" is the signer's right hand (see hand-tracker)
+  x: number; // wrist, normalised image coordinates
+  y: number;
+  size: number; // palm length, normalised image units
+};
+
+export const handednessCategory = (label: HandPlacement["handedness"]): Category =>
+  ({score: 1, index: label === "Right" ? 1 : 0, categoryName: label, displayName: label});
+
+// Landmarks of a posed hand in image coordinates, as the landmarker would report them for an unmirrored frame
+export function poseLandmarks(pose: HandPose, {handedness, x, y, size}: HandPlacement): NormalizedLandmark[] {
+  // Palm axes in camera space for a hand upright with its palm to the camera; the thumb side depends on the hand
+  // (camera z grows away from the camera)
+  let up: Vec3 = {x: 0, y: -1, z: 0};
+  let normal: Vec3 = {x: 0, y: 0, z: -1};
+  let side: Vec3 = handedness === "Right" ? cross(normal, up) : cross(up, normal);
+
+  const turn = (axis: Vec3, degrees: number) => {
+    up = rotate(up, axis, degrees);
+    normal = rotate(normal, axis, degrees);
+    side = rotate(side, axis, degrees);
+  };
+  turn(up, handedness === "Right" ? pose.yaw : -pose.yaw);
+  turn({x: 1, y: 0, z: 0}, pose.pitch);
+  turn({x: 0, y: 0, z: 1}, pose.roll);
+
+  return palmPoints(pose).map((p) => {
+    const v = add(add(scale(side, p.x), scale(up, p.y)), scale(normal, p.z));
+    return {x: x + v.x * size, y: y + v.y * size, z: v.z * size, visibility: 1};
+  });
+}
+
+// In-between pose, t = 0..1
+export function blendPoses(a: HandPose, b: HandPose, t: number): HandPose {
+  const mix = (p: number, q: number) => p + (q - p) * t;
+  const fingers = {} as HandPose["fingers"];
+  const spread = {} as HandPose["spread"];
+  for (const finger of LONG) {
+    fingers[finger] = a.fingers[finger].map((angle, i) => mix(angle, b.fingers[finger][i])) as [number, number, number];
+    spread[finger] = mix(a.spread[finger], b.spread[finger]);
+  }
+  return {
+    fingers,
+    spread,
+    thumb: {
+      abduction: mix(a.thumb.abduction, b.thumb.abduction),
+      opposition: mix(a.thumb.opposition, b.thumb.opposition),
+      flexion: [mix(a.thumb.flexion[0], b.thumb.flexion[0]), mix(a.thumb.flexion[1], b.thumb.flexion[1])],
+    },
+    roll: mix(a.roll, b.roll),
+    pitch: mix(a.pitch, b.pitch),
+    yaw: mix(a.yaw, b.yaw),
+  };
+}
+
+// --- Poses from handshape specs ---
+
+// A relaxed open hand, slightly turned so curled fingers still show in a flat drawing
+export const REST_POSE: HandPose = {
+  fingers: {index: [0, 0, 0], middle: [0, 0, 0], ring: [0, 0, 0], pinky: [0, 0, 0]},
+  spread: {index: 6, middle: 0, ring: -6, pinky: -12},
+  thumb: {abduction: 40, opposition: 20, flexion: [10, 10]},
+  roll: 0,
+  pitch: 0,
+  yaw: 25,
+};
+
+const FINGER_FLEXION: Record<FingerSpec, [number, number, number]> = {
+  extended: [0, 0, 0],
+  bent: [30, 50, 35],
+  curled: [85, 100, 60],
+  hooked: [10, 95, 60],
+  closed: [85, 100, 60],
+};
+
+const THUMB_POSES: Record<ThumbPosition, HandPose["thumb"]> = {
+  out: {abduction: 70, opposition: 0, flexion: [0, 0]},
+  in: {abduction: -10, opposition: 40, flexion: [30, 20]},
+  beside: {abduction: 10, opposition: 10, flexion: [0, 0]},
+  across: {abduction: -20, opposition: 40, flexion: [40, 30]},
+  parallel: {abduction: 18, opposition: 0, flexion: [0, 0]},
+};
+
+const first = <T, >(value: T | T[]): T => (Array.isArray(value) ? value[0] : value);
+
+// A first guess from the spec alone
+function initialPose(shape: HandshapeSpec, handedness: HandPlacement["handedness"]): HandPose {
+  const pose = structuredClone(REST_POSE);
+  const specified = LONG.filter((finger) => shape.fingers?.[finger]);
+  const touched = new Set((shape.contacts ?? []).flatMap(({a, b}) => [landmarkIndex(a), landmarkIndex(b)]));
+  for (const finger of LONG) {
+    const spec = shape.fingers?.[finger];
+    // Fingers the spec leaves free are folded away, unless it names none (a plain open hand) or they touch something
+    const reached = FINGER_JOINTS[finger].some((joint) => touched.has(joint));
+    pose.fingers[finger] = [...(spec ? FINGER_FLEXION[first(spec)]
+      : specified.length === 0 ? FINGER_FLEXION.extended : reached ? FINGER_FLEXION.bent : FINGER_FLEXION.curled)];
+  }
+  if (shape.crossed) pose.spread.index = -25;
+
+  const thumbSpec = shape.thumb && first(shape.thumb);
+  if (shape.thumbPosition) pose.thumb = {...THUMB_POSES[shape.thumbPosition]};
+  else if (touched.has(4)) pose.thumb = {abduction: 0, opposition: 60, flexion: [20, 20]};
+  else if (thumbSpec === "extended") pose.thumb = {abduction: 45, opposition: 20, flexion: [0, 0]};
+  else if (thumbSpec) pose.thumb = {abduction: 20, opposition: 40, flexion: [35, 30]};
+
+  // The signer's right hand points across to its left, which is the image's right
+  const across = handedness === "Left" ? 90 : -90;
+  switch (shape.orientation?.pointing?.[0]) {
+    case "down":
+      pose.roll = 180;
+      break;
+    case "side":
+      pose.roll = across;
+      break;
+    case "forward":
+      pose.pitch = 80;
+      break;
+  }
+  switch (shape.orientation?.facing?.[0]) {
+    case "camera":
+      pose.yaw = 0;
+      break;
+    case "away":
+      pose.yaw = 180;
+      break;
+    case "side":
+      pose.yaw = 90;
+      break;
+  }
+  return pose;
+}
+
+type PoseParameter = { get: (pose: HandPose) => number; set: (pose: HandPose, value: number) => void; min: number; max: number };
+
+const POSE_PARAMETERS: PoseParameter[] = [
+  ...LONG.flatMap((finger) => [0, 1, 2].map((joint): PoseParameter => ({
+    get: (pose) => pose.fingers[finger][joint],
+    set: (pose, value) => (pose.fingers[finger][joint] = value),
+    min: 0, max: 110,
+  }))),
+  ...LONG.map((finger): PoseParameter => ({
+    get: (pose) => pose.spread[finger],
+    set: (pose, value) => (pose.spread[finger] = value),
+    min: -35, max: 35,
+  })),
+  {get: (pose) => pose.thumb.abduction, set: (pose, value) => (pose.thumb.abduction = value), min: -40, max: 90},
+  {get: (pose) => pose.thumb.opposition, set: (pose, value) => (pose.thumb.opposition = value), min: -20, max: 80},
+  ...[0, 1].map((joint): PoseParameter => ({
+    get: (pose) => pose.thumb.flexion[joint],
+    set: (pose, value) => (pose.thumb.flexion[joint] = value),
+    min: 0, max: 90,
+  })),
+  {get: (pose) => pose.roll, set: (pose, value) => (pose.roll = value), min: -180, max: 180},
+  {get: (pose) => pose.pitch, set: (pose, value) => (pose.pitch = value), min: -90, max: 90},
+  {get: (pose) => pose.yaw, set: (pose, value) => (pose.yaw = value), min: -180, max: 180},
+];
+
+const FIT_STEPS = [20, 10, 5, 2]; // degrees
+const MAX_ROUNDS = 25; // per step
+const CONTACT_MARGIN = 0.4; // fitted contacts aim this far inside their threshold, as a fraction of it
+const SPREAD_MARGIN = 5; // degrees
+const POINTING_MARGIN = 0.8; // share of a fitted direction along the wanted screen axis
+
+const SCREEN_AXES: Record<ScreenDirection, (v: Vec3) => number> = {
+  up: (v) => -v.y,
+  down: (v) => v.y,
+  side: (v) => Math.abs(v.x),
+  forward: (v) => Math.abs(v.z),
+};
+
+// How far a screen direction is from the closest wanted one
+const pointingResidual = (v: Vec3, directions: ScreenDirection[]) =>
+  Math.max(0, POINTING_MARGIN - Math.max(...directions.map((direction) => SCREEN_AXES[direction](normalize(v)))));
+
+const segmentOf = (landmarks: NormalizedLandmark[], from: number, to: number): Vec3 =>
+  ({x: landmarks[to].x - landmarks[from].x, y: landmarks[to].y - landmarks[from].y, z: landmarks[to].z - landmarks[from].z});
+
+const FIT_PLACEMENT = {x: 0.5, y: 0.5, size: 0.2};
+
+// How far a pose is from matching the spec: failed checks dominate; the distances of contacts, spreads and
+// directions guide the search towards them and keep the result clear of the thresholds; then stay close to `start`
+function poseCost(shape: SignDefinition, pose: HandPose, start: HandPose, handedness: HandPlacement["handedness"]) {
+  const landmarks = poseLandmarks(pose, {handedness, ...FIT_PLACEMENT});
+  const category = handednessCategory(handedness);
+  const failures = explainSign(shape, {landmarks, handedness: category}).length;
+
+  const features = featuresOf(landmarks, category);
+  let residual = 0;
+  for (const {a, b, touching, threshold = DEFAULT_THRESHOLDS.contactDistance} of shape.contacts ?? []) {
+    const distance = landmarkDistance(features, landmarkIndex(a), landmarkIndex(b));
+    residual += touching
+      ? Math.max(0, distance - threshold * (1 - CONTACT_MARGIN))
+      : Math.max(0, threshold * (1 + CONTACT_MARGIN) - distance);
+  }
+  for (const {between, min, max} of shape.spread ?? []) {
+    const angle = features.spread[between];
+    if (min !== undefined) residual += Math.max(0, min + SPREAD_MARGIN - angle) / 30;
+    if (max !== undefined) residual += Math.max(0, angle - (max - SPREAD_MARGIN)) / 30;
+  }
+  for (const [finger, directions] of Object.entries(shape.fingerPointing ?? {})) {
+    const [base, , , tip] = FINGER_JOINTS[finger as FingerName];
+    residual += pointingResidual(segmentOf(landmarks, base, tip), directions);
+  }
+  if (shape.orientation?.pointing) residual += pointingResidual(segmentOf(landmarks, 0, 9), shape.orientation.pointing);
+
+  const drift = POSE_PARAMETERS.reduce((sum, {get, min, max}) => sum + Math.abs(get(pose) - get(start)) / (max - min), 0);
+  return {failures, residual, cost: 10 * failures + residual + 0.01 * drift};
+}
+
+// A pose the sign engine recognises as this handshape, by coordinate descent from the first guess. Signs
+// the search can't satisfy keep the closest pose found.
+export function fitPose(shape: HandshapeSpec, handedness: HandPlacement["handedness"]): HandPose {
+  // The handshape alone, as a sign the engine can explain
+  const sign: SignDefinition = {
+    ...shape, id: "pose", type: "LETTER", value: "", priority: 0, confidence: 1,
+    motion: undefined, nonDominant: undefined, between: undefined, parallel: undefined, location: undefined,
+  };
+  const start = initialPose(shape, handedness);
+  let best = start;
+  let score = poseCost(sign, best, start, handedness);
+
+  for (const step of FIT_STEPS) {
+    for (let round = 0; round < MAX_ROUNDS; round++) {
+      if (score.failures === 0 && score.residual === 0) return best;
+      let improved = false;
+      for (const {get, set, min, max} of POSE_PARAMETERS) {
+        for (const direction of [1, -1]) {
+          const candidate = structuredClone(best);
+          set(candidate, Math.min(max, Math.max(min, get(best) + direction * step)));
+          const candidateScore = poseCost(sign, candidate, start, handedness);
+          if (candidateScore.cost < score.cost - 1e-9) {
+            best = candidate;
+            score = candidateScore;
+            improved = true;
+          }
+        }
+      }
+      if (!improved) break;
+    }
+  }
+  return best;
+}
+
+// Fitting takes a few milliseconds; each handshape is fitted once per hand
+const poseCache = new WeakMap<HandshapeSpec, Partial<Record<HandPlacement["handedness"], HandPose>>>();
+
+export function poseForShape(shape: HandshapeSpec, handedness: HandPlacement["handedness"]): HandPose {
+  const cached = poseCache.get(shape) ?? {};
+  cached[handedness] ??= fitPose(shape, handedness);
+  poseCache.set(shape, cached);
+  return cached[handedness]!;
+}
@@ -0,0 +1,157 @@
+import type {Category, NormalizedLandmark} from "@mediapipe/tasks-vision";
+import {DEFAULT_SMOOTHING, LandmarkFilter, type SmoothingOptions} from "./landmark-filter";
+
+// Landmark history kept per hand for motion-based signs, by time so it is the same at any frame rate
+export const HISTORY_WINDOW_MS = 2000;
+
+export type HistoryFrame = {
+  t: number; // ms, same clock as the frames passed to HandTracker.update
+  landmarks: NormalizedLandmark[];
+};
+
+export type DominantHand = "right" | "left";
+
+export type TrackedHand = {
+  id: number; // stable while the hand stays in view
+  landmarks: NormalizedLandmark[]; // smoothed, see SmoothingOptions
+  handedness: Category; // smoothed over recent frames, MediaPipe labels flip now and then
+  history: HistoryFrame[]; // recent landmarks of this hand, oldest first
+};
+
+export type HandPair = {
+  dominant: TrackedHand | null; // the signing hand; a lone hand in view is always treated as dominant
+  nonDominant: TrackedHand | null;
+};
+
+type Track = TrackedHand & {
+  missed: number; // consecutive frames without a matching detection
+  labelScore: number; // > 0 leans "Right", < 0 leans "Left"
+  filter: LandmarkFilter; // jitter filter, per hand so hands never blend into each other
+};
+
+const MAX_MISSED_FRAMES = 5;
+const MAX_WRIST_JUMP = 0.25; // normalised image units a wrist may move between frames
+const LABEL_MISMATCH_COST = 0.1;
+const MAX_LABEL_SCORE = 5;
+
+const wristDistance = (a: NormalizedLandmark[], b: NormalizedLandmark[]) =>
+  Math.hypot(a[0].x - b[0].x, a[0].y - b[0].y);
+
+// Keeps hand identities stable across frames by matching each detection to the nearest known hand
+export class HandTracker {
+  private tracks: Track[] = [];
+  private nextId = 1;
+  private smoothing: SmoothingOptions = DEFAULT_SMOOTHING;
+
+  constructor(private historyMs: number = HISTORY_WINDOW_MS) {
+  }
+
+  reset() {
+    this.tracks = [];
+  }
+
+  // Takes effect for hands that come into view from now on
+  setSmoothing(options: SmoothingOptions) {
+    this.smoothing = options;
+    this.reset();
+  }
+
+  // Tracked hands trim their history to the new window on their next frame
+  setHistoryWindow(ms: number) {
+    this.historyMs = ms;
+  }
+
+  update(landmarks: NormalizedLandmark[][], handedness: Category[][], t: number): TrackedHand[] {
+    const detections = landmarks.map((lm, i) => ({landmarks: lm, label: handedness[i]?.[0]}));
+
+    // Greedy matching on wrist distance, cheapest pairs first
+    const pairs: { track: Track; detection: number; cost: number }[] = [];
+    for (const track of this.tracks) {
+      detections.forEach((det, i) => {
+        const distance = wristDistance(track.landmarks, det.landmarks);
+        if (distance > MAX_WRIST_JUMP) return;
+        const mismatch = det.label && det.label.categoryName !== track.handedness.categoryName;
+        pairs.push({track, detection: i, cost: distance + (mismatch ? LABEL_MISMATCH_COST : 0)});
+      });
+    }
+    pairs.sort((a, b) => a.cost - b.cost);
+
+    const matchedTracks = new Set<Track>();
+    const matchedDetections = new Set<number>();
+    for (const {track, detection} of pairs) {
+      if (matchedTracks.has(track) || matchedDetections.has(detection)) continue;
+      matchedTracks.add(track);
+      matchedDetections.add(detection);
+      this.observe(track, detections[detection].landmarks, detections[detection].label, t);
+    }
+
+    // Hands that left the view are forgotten after a few frames
+    for (const track of this.tracks) {
+      if (!matchedTracks.has(track)) track.missed++;
+    }
+    this.tracks = this.tracks.filter((track) => track.missed <= MAX_MISSED_FRAMES);
+
+    // Detections without a known hand start a new track
+    detections.forEach((det, i) => {
+      if (matchedDetections.has(i)) return;
+      const label = det.label ?? {score: 0, index: 0, categoryName: "Right", displayName: "Right"};
+      const track: Track = {
+        id: this.nextId++,
+        landmarks: det.landmarks,
+        handedness: label,
+        history: [],
+        missed: 0,
+        labelScore: 0,
+        filter: new LandmarkFilter(this.smoothing),
+      };
+      this.observe(track, det.landmarks, det.label, t);
+      this.tracks.push(track);
+      matchedTracks.add(track);
+    });
+
+    return this.tracks
+      .filter((track) => matchedTracks.has(track))
+      .map(({id, landmarks, handedness, history}) => ({id, landmarks, handedness, history}));
+  }
+
+  private observe(track: Track, raw: NormalizedLandmark[], label: Category | undefined, t: number) {
+    const landmarks = track.filter.apply(raw, t);
+    track.missed = 0;
+    track.landmarks = landmarks;
+    track.history.push({t, landmarks});
+    while (track.history[0].t < t - this.historyMs) track.history.shift();
+
+    if (label) {
+      const vote = label.categoryName === "Right" ? 1 : -1;
+      track.labelScore = Math.max(-MAX_LABEL_SCORE, Math.min(MAX_LABEL_SCORE, track.labelScore + vote));
+      const name = track.labelScore === 0 ? label.categoryName : track.labelScore > 0 ? "Right" : "Left";
+      track.handedness = {...label, categoryName: name, displayName: name};
+    }
+  }
+}
+
+// MediaPipe labels hands as if the image were mirrored (selfie view). Our video frames are not
+// mirrored (only the <video> element is, via CSS), so its "Left" is the signer's right hand.
+export function signerSide(handedness: Category): DominantHand {
+  return handedness.categoryName === "Left" ? "right" : "left";
+}
+
+// Picks the signing hand. With a single hand in view, that hand signs.
+export function pairHands(hands: TrackedHand[], dominantHand: DominantHand): HandPair {
+  if (hands.length === 0) return {dominant: null, nonDominant: null};
+  if (hands.length === 1) return {dominant: hands[0], nonDominant: null};
+
+  const [a, b] = hands;
+  const sideA = signerSide(a.handedness);
+  const sideB = signerSide(b.handedness);
+  let aIsDominant: boolean;
+  if (sideA !== sideB) {
+    aIsDominant = sideA === dominantHand;
+  } else {
+    // Both labelled the same: fall back to position. Facing the camera, the signer's
+    // right hand is on the left of the (unmirrored) image.
+    const aIsRight = a.landmarks[0].x < b.landmarks[0].x;
+    aIsDominant = aIsRight === (dominantHand === "right");
+  }
+  return aIsDominant ? {dominant: a, nonDominant: b} : {dominant: b, nonDominant: a};
+}
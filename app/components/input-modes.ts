@@ -0,0 +1,46 @@
+import type {Candidate} from "./sign-engine";
+
+// Several handshapes are both a letter and a digit (D/1, V/2, W/3, B/4). In auto mode the sign priorities
+// decide (letters win); letter and number modes drop the other kind so the signer gets what they mean.
+// The MODE command (Y with the other hand) cycles through them.
+export type InputMode = "auto" | "letters" | "numbers";
+
+export const INPUT_MODES: { value: InputMode; label: string }[] = [
+  {value: "auto", label: "Auto"},
+  {value: "letters", label: "ABC"},
+  {value: "numbers", label: "123"},
+];
+
+export const nextInputMode = (mode: InputMode): InputMode =>
+  INPUT_MODES[(INPUT_MODES.findIndex((m) => m.value === mode) + 1) % INPUT_MODES.length].value;
+
+// Commands stay available in every mode, except accepting a word suggestion in number mode: there the
+// thumbs up of the other hand is the tens digit 7
+export function filterByMode(candidates: Candidate[], mode: InputMode): Candidate[] {
+  if (mode === "letters") return candidates.filter(({token}) => token.type !== "NUMBER");
+  if (mode === "numbers") {
+    return candidates.filter(({token}) => token.type !== "LETTER" && !(token.type === "COMMAND" && token.value === "ACCEPT"));
+  }
+  return candidates;
+}
+
+// --- Storage ---
+const STORAGE_KEY = "hand-speak-input-mode";
+
+export function loadInputMode(): InputMode {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (INPUT_MODES.some((m) => m.value === stored)) return stored as InputMode;
+  } catch {
+    // storage unavailable: default mode
+  }
+  return "auto";
+}
+
+export function saveInputMode(mode: InputMode) {
+  try {
+    localStorage.setItem(STORAGE_KEY, mode);
+  } catch (e) {
+    console.warn("Could not save the input mode", e);
+  }
+}
@@ -0,0 +1,75 @@
+import type {NormalizedLandmark} from "@mediapipe/tasks-vision";
+
+// One Euro filter (Casiez et al. 2012): a low-pass filter whose cutoff rises with speed, so a still
+// hand stops jittering while a moving hand isn't lagged behind.
+// minCutoff (Hz) sets the smoothing at rest, beta how quickly it relaxes with speed.
+export type SmoothingOptions = {
+  enabled: boolean;
+  minCutoff: number; // Hz
+  beta: number;
+  derivativeCutoff: number; // Hz
+};
+
+export const DEFAULT_SMOOTHING: SmoothingOptions = {
+  enabled: true,
+  minCutoff: 1,
+  beta: 60, // high enough to keep quick movements such as the Ç tremble
+  derivativeCutoff: 4,
+};
+
+const smoothingFactor = (cutoff: number, dt: number) => {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dt);
+};
+
+export class OneEuroFilter {
+  private value: number | null = null;
+  private derivative = 0;
+  private lastTime = 0;
+
+  constructor(private readonly options: SmoothingOptions) {
+  }
+
+  // t in ms
+  filter(value: number, t: number): number {
+    if (this.value === null || t <= this.lastTime) {
+      this.value = value;
+      this.lastTime = t;
+      return value;
+    }
+    const dt = (t - this.lastTime) / 1000;
+    this.lastTime = t;
+
+    const {minCutoff, beta, derivativeCutoff} = this.options;
+    const rawDerivative = (value - this.value) / dt;
+    this.derivative += smoothingFactor(derivativeCutoff, dt) * (rawDerivative - this.derivative);
+    const cutoff = minCutoff + beta * Math.abs(this.derivative);
+    this.value += smoothingFactor(cutoff, dt) * (value - this.value);
+    return this.value;
+  }
+}
+
+// One filter per coordinate of each landmark (the 21 of a hand, or a body's)
+export class LandmarkFilter {
+  private filters: OneEuroFilter[] = [];
+
+  constructor(private readonly options: SmoothingOptions = DEFAULT_SMOOTHING) {
+  }
+
+  reset() {
+    this.filters = [];
+  }
+
+  apply(landmarks: NormalizedLandmark[], t: number): NormalizedLandmark[] {
+    if (!this.options.enabled) return landmarks;
+    if (this.filters.length === 0) {
+      this.filters = Array.from({length: landmarks.length * 3}, () => new OneEuroFilter(this.options));
+    }
+    return landmarks.map((l, i) => ({
+      x: this.filters[i * 3].filter(l.x, t),
+      y: this.filters[i * 3 + 1].filter(l.y, t),
+      z: this.filters[i * 3 + 2].filter(l.z, t),
+      visibility: l.visibility,
+    }));
+  }
+}
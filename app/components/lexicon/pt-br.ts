@@ -0,0 +1,37 @@
+// Common Brazilian Portuguese words, most frequent first (the order is the frequency prior used for
+// prediction). Kept as one space-separated string so the bundle stays small and easy to extend.
+const WORDS = `
+DE A O QUE E DO DA EM UM PARA É COM NÃO UMA OS NO SE NA POR MAIS AS DOS COMO MAS FOI AO ELE DAS TEM À SEU
+SUA OU SER QUANDO MUITO HÁ NOS JÁ ESTÁ EU TAMBÉM SÓ PELO PELA ATÉ ISSO ELA ENTRE ERA DEPOIS SEM MESMO AOS
+TER SEUS QUEM NAS ME ESSE ELES ESTÃO VOCÊ TINHA FORAM ESSA NUM NEM SUAS MEU MINHA TÊM NUMA PELOS ELAS HAVIA
+SEJA QUAL SERÁ NÓS TENHO LHE DELES ESSAS ESSES PELAS ESTE FOSSE DELE TU TE VOCÊS VOS LHES MEUS MINHAS TEU
+TUA TEUS TUAS NOSSO NOSSA NOSSOS NOSSAS DELA DELAS ESTA ESTES ESTAS AQUELE AQUELA AQUELES AQUELAS ISTO
+AQUILO ESTOU ESTAVA ESTAMOS FAZER FEZ FAZ DIZER DISSE DIZ PODE PODER PODIA VAI VOU VAMOS IR VER VEJO
+SABER SEI SABE QUERO QUER QUERIA GOSTO GOSTA DAR DOU DEU FICAR FICA FICOU PASSAR VIR VEM VEIO ACHO ACHAR
+CHEGAR CHEGOU FALAR FALA FALOU LEVAR DEIXAR PARECE ENCONTRAR CONHECER CONHEÇO ENTENDER ENTENDO PRECISAR
+PRECISO PRECISA AJUDAR AJUDA TRABALHAR TRABALHO ESTUDAR ESTUDO COMER BEBER DORMIR MORAR MORO JOGAR LER
+ESCREVER APRENDER ENSINAR COMPRAR PAGAR ABRIR FECHAR COMEÇAR TERMINAR ESPERAR PERGUNTAR RESPONDER LEMBRAR
+ESQUECER PENSAR SENTIR AMAR ANDAR CORRER SAIR ENTRAR VOLTAR CHAMAR OLHAR OUVIR MOSTRAR USAR TENTAR
+SIM OI OLÁ TCHAU OBRIGADO OBRIGADA DESCULPA DESCULPE POR FAVOR BOM BOA DIA TARDE NOITE TUDO BEM CERTO
+CLARO AGORA HOJE ONTEM AMANHÃ SEMPRE NUNCA AINDA LOGO CEDO TARDE AQUI ALI LÁ ONDE AONDE PORQUE POR QUÊ
+COMO QUANTO QUANTA QUANTOS QUANTAS QUAIS CADA TODO TODA TODOS TODAS OUTRO OUTRA OUTROS OUTRAS ALGUM ALGUMA
+ALGUNS ALGUMAS NENHUM NENHUMA NADA ALGO ALGUÉM NINGUÉM POUCO POUCOS MUITA MUITOS MUITAS MENOS MELHOR PIOR
+MAIOR MENOR GRANDE PEQUENO PEQUENA NOVO NOVA VELHO VELHA PRIMEIRO PRIMEIRA ÚLTIMO ÚLTIMA PRÓXIMO PRÓXIMA
+BONITO BONITA FELIZ TRISTE FÁCIL DIFÍCIL IMPORTANTE POSSÍVEL DIFERENTE IGUAL CERTA ERRADO ERRADA LONGE PERTO
+CASA ESCOLA TRABALHO CIDADE PAÍS MUNDO BRASIL RUA LUGAR SALA QUARTO COZINHA BANHEIRO PORTA JANELA MESA
+CADEIRA CAMA CARRO ÔNIBUS MÉDICO HOSPITAL LOJA MERCADO IGREJA PRAIA PARQUE FAMÍLIA PAI MÃE FILHO FILHA
+IRMÃO IRMÃ AVÔ AVÓ TIO TIA PRIMO PRIMA AMIGO AMIGA AMIGOS NAMORADO NAMORADA MARIDO ESPOSA BEBÊ CRIANÇA
+CRIANÇAS HOMEM MULHER PESSOA PESSOAS GENTE SENHOR SENHORA PROFESSOR PROFESSORA ALUNO ALUNA INTÉRPRETE
+SURDO SURDA OUVINTE LIBRAS LÍNGUA SINAL SINAIS PALAVRA PALAVRAS NOME IDADE ANO ANOS MÊS MESES SEMANA HORA
+HORAS MINUTO MINUTOS TEMPO VEZ VEZES COISA COISAS PARTE FORMA JEITO CASO PROBLEMA PERGUNTA RESPOSTA
+HISTÓRIA VIDA MORTE SAÚDE DOENÇA DOR CORPO CABEÇA MÃO MÃOS OLHO OLHOS BOCA CORAÇÃO ÁGUA COMIDA CAFÉ LEITE
+PÃO ARROZ FEIJÃO CARNE FRUTA SUCO ALMOÇO JANTAR DINHEIRO PREÇO CONTA TELEFONE CELULAR COMPUTADOR INTERNET
+MENSAGEM LIVRO AULA CURSO PROVA FESTA FÉRIAS VIAGEM FIM COMEÇO MEIO NÚMERO LETRA COR AZUL VERDE VERMELHO
+AMARELO BRANCO PRETO FRIO CALOR SOL CHUVA SEGUNDA TERÇA QUARTA QUINTA SEXTA SÁBADO DOMINGO JANEIRO FEVEREIRO
+MARÇO ABRIL MAIO JUNHO JULHO AGOSTO SETEMBRO OUTUBRO NOVEMBRO DEZEMBRO UM DOIS TRÊS QUATRO CINCO SEIS SETE
+OITO NOVE DEZ CEM MIL PARABÉNS FELICIDADES SAUDADE AMOR PAZ ALEGRIA MEDO RAIVA VONTADE CANSADO CANSADA
+DOENTE FOME SEDE PRONTO PRONTA JUNTO JUNTOS SOZINHO SOZINHA ENTÃO TALVEZ QUASE BASTANTE DEMAIS TANTO TANTA
+ASSIM LEGAL ÓTIMO ÓTIMA RUIM CONTRA SOBRE SOB DESDE DURANTE ANTES APESAR ENQUANTO EMBORA CONTUDO PORÉM
+`;
+
+export const PT_BR_WORDS: string[] = [...new Set(WORDS.split(/\s+/).filter(Boolean))];
@@ -0,0 +1,46 @@
+import type {FeatureThresholds} from "./hand-features";
+import type {TrackedHand} from "./hand-tracker";
+import type {BodyAnchors} from "./body-anchors";
+import type {GestureToken} from "./libras-logic";
+import {analyzeTwoHandNumber} from "./libras-numbers";
+import {type Candidate, getSigns, rankSigns} from "./sign-engine";
+
+// Priority given to two-handed numbers among the two-handed candidates (same tier as one-handed numbers)
+const TWO_HAND_NUMBER_PRIORITY = 40;
+
+// Ranked two-handed LIBRAS words and numbers (10 and above), best first.
+// Empty when the hands are not forming a two-handed sign, so single-hand analysis can run.
+export function rankTwoHandSign(
+  dominant: TrackedHand,
+  nonDominant: TrackedHand,
+  thresholds?: FeatureThresholds,
+  body?: BodyAnchors | null
+): Candidate[] {
+  const signing = {...dominant, thresholds, body};
+  const other = {...nonDominant, thresholds, body};
+
+  // Two-handed signs from the sign packs (CASA, IGUAL, ...) come before numbers
+  const candidates = rankSigns(getSigns((sign) => !!sign.nonDominant), signing, other);
+
+  // Numbers: the non-dominant hand shows the tens, the dominant hand the units (e.g. 1 + 0 = 10)
+  const number = analyzeTwoHandNumber(signing, other);
+  if (number) {
+    candidates.push({
+      token: {type: "NUMBER", value: number.value, confidence: number.confidence},
+      priority: TWO_HAND_NUMBER_PRIORITY,
+      signId: "two-hand-number",
+    });
+  }
+  return candidates;
+}
+
+// Analyze both hands together for two-handed LIBRAS words and numbers (10 and above).
+// Returns null when the hands are not forming a two-handed sign, so single-hand analysis can run.
+export function analyzeTwoHandSign(
+  dominant: TrackedHand,
+  nonDominant: TrackedHand,
+  thresholds?: FeatureThresholds,
+  body?: BodyAnchors | null
+): GestureToken | null {
+  return rankTwoHandSign(dominant, nonDominant, thresholds, body)[0]?.token ?? null;
+}
@@ -0,0 +1,52 @@
+import type {TrainedModel} from "./sign-classifier";
+
+// IndexedDB persistence for trained models (samples included), keyed by model name,
+// plus which model is active so it comes back after a reload.
+const DB_NAME = "hand-speak";
+const DB_VERSION = 1;
+const MODELS = "models";
+const META = "meta";
+const ACTIVE_MODEL_KEY = "activeModel";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(MODELS)) db.createObjectStore(MODELS, {keyPath: "name"});
+        if (!db.objectStoreNames.contains(META)) db.createObjectStore(META);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(store: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(store, mode).objectStore(store));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export const saveModel = (model: TrainedModel) => run<IDBValidKey>(MODELS, "readwrite", (s) => s.put(model));
+
+export const loadModel = (name: string) => run<TrainedModel | undefined>(MODELS, "readonly", (s) => s.get(name));
+
+export const listModels = () => run<TrainedModel[]>(MODELS, "readonly", (s) => s.getAll());
+
+export const deleteModel = (name: string) => run<undefined>(MODELS, "readwrite", (s) => s.delete(name));
+
+export const getActiveModelName = () => run<string | undefined>(META, "readonly", (s) => s.get(ACTIVE_MODEL_KEY));
+
+export const setActiveModelName = (name: string) =>
+  run<IDBValidKey>(META, "readwrite", (s) => s.put(name, ACTIVE_MODEL_KEY));
@@ -0,0 +1,79 @@
+import {useState} from "react";
+import type {GestureToken} from "./libras-logic";
+import type {MotionTemplateOptions} from "./motion-templates";
+import type {SignPack} from "./sign-definitions";
+
+type MotionTemplatePanelProps = {
+  pack: SignPack;
+  recording: boolean;
+  canRecord: boolean;
+  onRecord: (options: MotionTemplateOptions) => void;
+  onStop: () => void;
+  onRemove: (id: string) => void;
+  onExport: () => void;
+};
+
+const LANDMARKS = [
+  {value: "wrist", label: "Whole hand"},
+  {value: "indexTip", label: "Index tip"},
+  {value: "pinkyTip", label: "Pinky tip"},
+  {value: "thumbTip", label: "Thumb tip"},
+];
+
+// Record a new movement sign: press Record, make the movement once, press Stop
+export function MotionTemplatePanel(props: MotionTemplatePanelProps) {
+  const {pack, recording} = props;
+  const [label, setLabel] = useState("");
+  const [type, setType] = useState<GestureToken["type"]>("WORD");
+  const [landmark, setLandmark] = useState("wrist");
+  const value = label.trim().toUpperCase();
+
+  return (
+    <div className="w-full max-w-[640px] bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+      <h3 className="text-gray-500 text-sm font-bold uppercase tracking-wider mb-4">Record Movement Signs</h3>
+
+      <div className="flex gap-2 items-center">
+        <select value={type} onChange={(e) => setType(e.target.value as GestureToken["type"])}
+                className="text-sm bg-gray-100 rounded px-2 py-1" disabled={recording}>
+          <option value="WORD">Word</option>
+          <option value="LETTER">Letter</option>
+        </select>
+        <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Sign, e.g. TCHAU"
+               className="flex-1 text-sm border border-gray-200 rounded px-2 py-1" disabled={recording}/>
+        <select value={landmark} onChange={(e) => setLandmark(e.target.value)}
+                className="text-sm bg-gray-100 rounded px-2 py-1" disabled={recording}>
+          {LANDMARKS.map((l) => <option key={l.value} value={l.value}>{l.label}</option>)}
+        </select>
+        {recording ? (
+          <button onClick={props.onStop} className="px-3 py-1 bg-red-500 text-white rounded text-sm font-medium">
+            ● Stop
+          </button>
+        ) : (
+          <button onClick={() => props.onRecord({type, value, landmark})} disabled={!value || !props.canRecord}
+                  className="px-3 py-1 bg-[#007f8b] text-white rounded text-sm font-medium disabled:opacity-40">
+            Record
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mt-2">
+        Hold the handshape, make the movement once at your normal pace, then stop. Pauses before and after are trimmed.
+      </p>
+
+      <ul className="mt-4 flex flex-wrap gap-2">
+        {pack.signs.length === 0 && <li className="text-gray-300 italic text-sm">No recorded movements yet</li>}
+        {pack.signs.map((sign) => (
+          <li key={sign.id} className="flex items-center gap-1 bg-gray-100 rounded px-2 py-1 text-sm">
+            <span className="font-mono font-bold">{sign.value}</span>
+            <span className="text-gray-400 text-xs">{sign.motion?.duration}ms</span>
+            <button onClick={() => props.onRemove(sign.id)} className="text-red-500 text-xs hover:underline ml-1">✕</button>
+          </li>
+        ))}
+      </ul>
+
+      <button onClick={props.onExport} disabled={pack.signs.length === 0}
+              className="mt-4 text-sm text-[#007f8b] hover:underline disabled:opacity-40 disabled:no-underline">
+        Export as Sign Pack
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import type {Category, NormalizedLandmark} from "@mediapipe/tasks-vision";
+import type {HandshapeSpec, PathMotion, SignDefinition, SignPack} from "./sign-definitions";
+import {landmarkIndex, type LandmarkRef, parseSignPack} from "./sign-definitions";
+import {extractHandFeatures, LONG_FINGERS} from "./hand-features";
+import type {DominantHand, HistoryFrame} from "./hand-tracker";
+
+// Motion templates: trajectories are sampled by time rather than by frame, then compared with
+// dynamic time warping, so the same movement matches at 30fps and 60fps and at a slightly
+// different pace than the template.
+
+export type Point2 = [number, number];
+
+export const TRAJECTORY_SAMPLES = 16;
+
+// Frames of the history inside the last `duration` ms; null when the history doesn't cover the window yet
+export function motionWindow(history: HistoryFrame[], duration: number): HistoryFrame[] | null {
+  if (history.length < 2) return null;
+  const end = history[history.length - 1].t;
+  const start = history.findIndex((frame) => frame.t >= end - duration);
+  // Include the frame just before the window so its start can be interpolated
+  const frames = history.slice(Math.max(0, start - 1));
+  if (end - frames[0].t < duration * 0.9 || frames.length < 3) return null;
+  return frames;
+}
+
+// Landmark positions at `count` evenly spaced instants across the frames, linearly interpolated
+export function sampleByTime(frames: HistoryFrame[], landmark: number, count = TRAJECTORY_SAMPLES): NormalizedLandmark[] {
+  const start = frames[0].t;
+  const span = frames[frames.length - 1].t - start || 1;
+  const out: NormalizedLandmark[] = [];
+  let next = 1;
+  for (let i = 0; i < count; i++) {
+    const t = start + (span * i) / (count - 1);
+    while (next < frames.length - 1 && frames[next].t < t) next++;
+    const a = frames[next - 1];
+    const b = frames[next];
+    const k = Math.min(1, Math.max(0, (t - a.t) / (b.t - a.t || 1)));
+    const pa = a.landmarks[landmark];
+    const pb = b.landmarks[landmark];
+    out.push({x: pa.x + (pb.x - pa.x) * k, y: pa.y + (pb.y - pa.y) * k, z: pa.z + (pb.z - pa.z) * k, visibility: 0});
+  }
+  return out;
+}
+
+const SPEED_LANDMARKS = [0, 4, 8, 12, 16, 20]; // wrist and fingertips
+const SPEED_WINDOW_MS = 100;
+
+// How fast the hand is moving, in palm lengths per second: mean movement of the wrist and fingertips over
+// the last `windowMs`. Handshape changes count as movement too, so a still hand is one between signs.
+export function handSpeed(history: HistoryFrame[], windowMs = SPEED_WINDOW_MS): number {
+  if (history.length < 2) return 0;
+  const last = history[history.length - 1];
+  let first = history.length - 2;
+  while (first > 0 && last.t - history[first].t < windowMs) first--;
+  const start = history[first];
+  const dt = (last.t - start.t) / 1000;
+  const palm = Math.hypot(last.landmarks[9].x - last.landmarks[0].x, last.landmarks[9].y - last.landmarks[0].y);
+  if (dt <= 0 || palm === 0) return 0;
+  const moved = SPEED_LANDMARKS.reduce((sum, i) =>
+    sum + Math.hypot(last.landmarks[i].x - start.landmarks[i].x, last.landmarks[i].y - start.landmarks[i].y), 0);
+  return moved / SPEED_LANDMARKS.length / palm / dt;
+}
+
+export const pathLength = (points: Point2[]) =>
+  points.slice(1).reduce((sum, [x, y], i) => sum + Math.hypot(x - points[i][0], y - points[i][1]), 0);
+
+// Resample a polyline to `count` points evenly spaced along its length
+export function resampleByLength(points: Point2[], count = TRAJECTORY_SAMPLES): Point2[] {
+  const lengths = [0];
+  for (let i = 1; i < points.length; i++) {
+    lengths.push(lengths[i - 1] + Math.hypot(points[i][0] - points[i - 1][0], points[i][1] - points[i - 1][1]));
+  }
+  const total = lengths[lengths.length - 1];
+  if (total === 0) return Array.from({length: count}, () => points[0]);
+
+  const out: Point2[] = [];
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const target = (total * i) / (count - 1);
+    while (segment < points.length - 1 && lengths[segment] < target) segment++;
+    const span = lengths[segment] - lengths[segment - 1] || 1;
+    const t = (target - lengths[segment - 1]) / span;
+    const [ax, ay] = points[segment - 1];
+    const [bx, by] = points[segment];
+    out.push([ax + (bx - ax) * t, ay + (by - ay) * t]);
+  }
+  return out;
+}
+
+// Dynamic time warping: mean point distance along the cheapest monotonic alignment of the two sequences
+export function dtwDistance(a: Point2[], b: Point2[]): number {
+  // cost[i][j]: total distance and length of the cheapest alignment of a[0..i] with b[0..j]
+  const cost: { total: number; steps: number }[][] = a.map(() => []);
+  for (let i = 0; i < a.length; i++) {
+    for (let j = 0; j < b.length; j++) {
+      const d = Math.hypot(a[i][0] - b[j][0], a[i][1] - b[j][1]);
+      const previous = [
+        i > 0 && j > 0 ? cost[i - 1][j - 1] : null,
+        i > 0 ? cost[i - 1][j] : null,
+        j > 0 ? cost[i][j - 1] : null,
+      ].filter((c) => c !== null);
+      const best = previous.reduce((x, y) => (y.total < x.total ? y : x), previous[0] ?? {total: 0, steps: 0});
+      cost[i][j] = {total: best.total + d, steps: best.steps + 1};
+    }
+  }
+  const end = cost[a.length - 1][b.length - 1];
+  return end.total / end.steps;
+}
+
+// Distance between the landmark's movement over the frames and the template path (best allowed mirror),
+// in palm lengths; Infinity when the hand barely moved compared to the template. `side` is the signer's side
+// of the moving hand, for outward paths.
+export function pathDistance(motion: PathMotion, frames: HistoryFrame[], palm: number, side: DominantHand = "right"): number {
+  const samples = sampleByTime(frames, landmarkIndex(motion.landmark));
+  const origin = samples[0];
+  const trajectory = samples.map((p) => [(p.x - origin.x) / palm, (p.y - origin.y) / palm] as Point2);
+  // A hand held still sits close to any short path; require at least half of the template's travel
+  if (pathLength(trajectory) < pathLength(motion.path) / 2) return Infinity;
+
+  // The signer's right is the image's left
+  const outward = motion.outward && side === "right" ? -1 : 1;
+  const flips: Point2[] = [[outward, 1]];
+  if (motion.mirror === "x" || motion.mirror === "xy") flips.push([-outward, 1]);
+  if (motion.mirror === "y" || motion.mirror === "xy") flips.push([outward, -1]);
+  if (motion.mirror === "xy") flips.push([-outward, -1]);
+
+  // DTW forgives pace but barely notices a wrong ending (a sweep vs. out-and-back), so the end point counts too
+  const [endX, endY] = trajectory[trajectory.length - 1];
+  return Math.min(...flips.map(([fx, fy]) => {
+    const template = resampleByLength(motion.path.map(([x, y]) => [x * fx, y * fy] as Point2));
+    const [tx, ty] = template[template.length - 1];
+    return Math.max(dtwDistance(trajectory, template), Math.hypot(endX - tx, endY - ty) / 2);
+  }));
+}
+
+// --- Recording new templates ---
+
+const STILL_DISTANCE = 0.1; // palm lengths; movement below this at either end is trimmed off
+const TEMPLATE_POINTS = 12;
+
+export type MotionTemplateOptions = {
+  type: SignDefinition["type"];
+  value: string | number;
+  landmark: LandmarkRef; // landmark whose path defines the movement, e.g. "wrist" or "indexTip"
+};
+
+// Builds a motion sign from a recorded take: the handshape held mid-movement plus the landmark's path.
+// Returns null when the hand didn't move enough to make a template.
+export function createMotionTemplate(
+  frames: HistoryFrame[],
+  handedness: Category,
+  {type, value, landmark}: MotionTemplateOptions
+): SignDefinition | null {
+  if (frames.length < 3) return null;
+  const idx = landmarkIndex(landmark);
+  const palm = extractHandFeatures(frames[0].landmarks, handedness).scale;
+  const at = (frame: HistoryFrame): Point2 => [frame.landmarks[idx].x / palm, frame.landmarks[idx].y / palm];
+  const moved = (a: Point2, b: Point2) => Math.hypot(a[0] - b[0], a[1] - b[1]) > STILL_DISTANCE;
+
+  // Trim the still parts before and after the movement
+  const first = at(frames[0]);
+  const last = at(frames[frames.length - 1]);
+  const start = Math.max(0, frames.findIndex((f) => moved(at(f), first)) - 1);
+  const end = Math.min(frames.length - 1, frames.length - [...frames].reverse().findIndex((f) => moved(at(f), last)));
+  const take = frames.slice(start, end + 1);
+  if (take.length < 3) return null;
+
+  const origin = at(take[0]);
+  const path = resampleByLength(take.map((f) => [at(f)[0] - origin[0], at(f)[1] - origin[1]] as Point2), TEMPLATE_POINTS)
+    .map(([x, y]) => [Math.round(x * 100) / 100, Math.round(y * 100) / 100] as Point2);
+  if (pathLength(path) < STILL_DISTANCE * 2) return null;
+
+  const features = extractHandFeatures(take[Math.floor(take.length / 2)].landmarks, handedness);
+  const fingers: NonNullable<HandshapeSpec["fingers"]> = {};
+  for (const name of LONG_FINGERS) {
+    fingers[name as keyof typeof fingers] = features.fingers[name].state === "extended" ? "extended" : "closed";
+  }
+
+  return {
+    id: `user-${String(value).toLowerCase()}-${Date.now()}`,
+    type,
+    value,
+    description: "Recorded motion template",
+    fingers,
+    motion: {kind: "path", landmark, path, duration: Math.round(take[take.length - 1].t - take[0].t)},
+    priority: 50, // recorded by the signer, so preferred over the built-in movements
+    confidence: 0.85,
+  };
+}
+
+// --- User templates (localStorage) ---
+// Recorded signs live in their own pack so they can be exported and loaded elsewhere like any sign pack
+const STORAGE_KEY = "hand-speak-user-signs";
+
+export function emptyUserPack(): SignPack {
+  return {id: "user-signs", name: "My recorded signs", version: 1, signs: []};
+}
+
+export function loadUserPack(): SignPack {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) return parseSignPack(JSON.parse(stored));
+  } catch (e) {
+    console.warn("Ignoring stored user signs", e);
+  }
+  return emptyUserPack();
+}
+
+export function saveUserPack(pack: SignPack) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(pack));
+  } catch (e) {
+    console.warn("Could not save user signs", e);
+  }
+}
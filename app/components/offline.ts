@@ -0,0 +1,28 @@
+import {LOCAL_ASSET_URLS} from "./hand-landmarker";
+
+// Registers the service worker (public/sw.js) that keeps the app, the MediaPipe runtime and the model cached,
+// so the app installs and runs offline. Production builds only: in development it would cache Vite's modules.
+
+export type PrecacheMessage = { type: "precache"; urls: string[] };
+
+// The page's own files already loaded before the worker took control, which it would otherwise only
+// cache on the next visit, and the landmarker's files, which load in the detection worker
+function precacheUrls(): string[] {
+  const loaded = performance
+    .getEntriesByType("resource")
+    .map((entry) => entry.name)
+    .filter((url) => new URL(url).origin === location.origin);
+  return [...new Set([location.pathname, ...loaded, ...LOCAL_ASSET_URLS])];
+}
+
+export async function registerServiceWorker() {
+  if (!import.meta.env.PROD || !("serviceWorker" in navigator)) return;
+  try {
+    await navigator.serviceWorker.register("/sw.js");
+    const registration = await navigator.serviceWorker.ready;
+    const message: PrecacheMessage = {type: "precache", urls: precacheUrls()};
+    registration.active?.postMessage(message);
+  } catch (e) {
+    console.warn("Could not register the service worker; the app won't work offline", e);
+  }
+}
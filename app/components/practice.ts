@@ -0,0 +1,184 @@
+import type {GestureToken} from "./libras-logic";
+import {getSigns} from "./sign-engine";
+import type {SignDefinition} from "./sign-definitions";
+
+// Practice mode: the learner is shown a sign to make and graded live by the same recognizer as the writer.
+// Accuracy and speed are kept per sign, and the next sign is drawn with more weight on the ones the learner
+// gets wrong, is slow at, or hasn't tried yet.
+
+export type PracticeDeck = "letters" | "numbers" | "words";
+
+export const PRACTICE_DECKS: { value: PracticeDeck; label: string; type: SignDefinition["type"] }[] = [
+  {value: "letters", label: "Letters", type: "LETTER"},
+  {value: "numbers", label: "Numbers", type: "NUMBER"},
+  {value: "words", label: "Words", type: "WORD"},
+];
+
+export type PracticeSign = {
+  key: string; // "LETTER:A"
+  type: SignDefinition["type"];
+  value: string | number;
+  description?: string;
+  variants: SignDefinition[]; // every definition giving this token, for hints
+  motion: boolean; // made with a movement: recognised once, at its end
+  twoHanded: boolean;
+  location?: SignDefinition["location"]; // made at a place on the body (by every variant): needs body tracking
+};
+
+export const practiceKey = ({type, value}: Pick<GestureToken, "type" | "value">) => `${type}:${value}`;
+
+// Every sign of the deck in the registered packs, one per token (G sideways and upright are one sign).
+// Without body tracking, signs made at a place on the body can't be recognised, so they are left out.
+export function practiceSigns(deck: PracticeDeck, {bodyTracking = true}: { bodyTracking?: boolean } = {}): PracticeSign[] {
+  const type = PRACTICE_DECKS.find((d) => d.value === deck)!.type;
+  const signs = new Map<string, PracticeSign>();
+  for (const sign of getSigns((s) => s.type === type && (bodyTracking || !s.location))) {
+    const key = practiceKey(sign);
+    const known = signs.get(key);
+    if (known) {
+      known.variants.push(sign);
+      known.description ??= sign.description;
+      if (!sign.location) known.location = undefined;
+      continue;
+    }
+    signs.set(key, {
+      key, type: sign.type, value: sign.value, description: sign.description, variants: [sign],
+      motion: !!sign.motion, twoHanded: !!sign.nonDominant, location: sign.location,
+    });
+  }
+  return [...signs.values()];
+}
+
+// --- Grading ---
+
+export const PRACTICE_HOLD_MS = 600; // a static sign has to be recognised this long
+export const PRACTICE_TIMEOUT_MS = 15000; // after this long the attempt counts as missed
+
+export type AttemptStatus = "trying" | "holding" | "correct" | "missed";
+
+export type AttemptGrade = {
+  status: AttemptStatus;
+  progress: number; // 0..1 of the hold
+  seen: GestureToken | null; // what the recognizer sees right now
+  elapsed: number; // ms since the sign was shown
+};
+
+// One attempt at a sign: feed it every frame's recognised token until it is correct or missed
+export class PracticeAttempt {
+  private holdStart: number | null = null;
+  private status: AttemptStatus = "trying";
+
+  constructor(readonly target: PracticeSign, readonly start: number) {
+  }
+
+  push(token: GestureToken | null, time: number): AttemptGrade {
+    const elapsed = time - this.start;
+    if (this.status === "correct" || this.status === "missed") {
+      return {status: this.status, progress: this.status === "correct" ? 1 : 0, seen: token, elapsed};
+    }
+
+    const matches = token !== null && practiceKey(token) === this.target.key;
+    if (!matches) this.holdStart = null;
+    else this.holdStart ??= time;
+
+    // Movements are only recognised once they are complete
+    const held = this.holdStart === null ? 0 : time - this.holdStart;
+    const progress = matches ? (this.target.motion ? 1 : Math.min(1, held / PRACTICE_HOLD_MS)) : 0;
+    if (progress >= 1) this.status = "correct";
+    else if (elapsed >= PRACTICE_TIMEOUT_MS) this.status = "missed";
+    else this.status = matches ? "holding" : "trying";
+    return {status: this.status, progress, seen: token, elapsed};
+  }
+
+  // Skipped by the learner
+  miss() {
+    if (this.status !== "correct") this.status = "missed";
+  }
+}
+
+// --- Progress ---
+
+export type SignStats = {
+  attempts: number;
+  correct: number;
+  totalMs: number; // summed time to a correct answer
+  streak: number; // correct answers in a row
+  lastPracticed: string; // ISO date
+};
+
+export type PracticeProgress = Record<string, SignStats>; // by PracticeSign key
+
+export const accuracyOf = (stats: SignStats) => (stats.attempts > 0 ? stats.correct / stats.attempts : 0);
+
+export const averageMsOf = (stats: SignStats) => (stats.correct > 0 ? stats.totalMs / stats.correct : null);
+
+export function recordAttempt(
+  progress: PracticeProgress,
+  key: string,
+  {correct, ms, at = new Date()}: { correct: boolean; ms: number; at?: Date }
+): PracticeProgress {
+  const stats = progress[key] ?? {attempts: 0, correct: 0, totalMs: 0, streak: 0, lastPracticed: ""};
+  return {
+    ...progress,
+    [key]: {
+      attempts: stats.attempts + 1,
+      correct: stats.correct + (correct ? 1 : 0),
+      totalMs: stats.totalMs + (correct ? Math.round(ms) : 0),
+      streak: correct ? stats.streak + 1 : 0,
+      lastPracticed: at.toISOString(),
+    },
+  };
+}
+
+// --- Choosing the next sign ---
+
+const SLOW_MS = 5000; // answers this slow count as fully "slow"
+const MASTERED_STREAK = 3;
+
+// How much a sign needs drilling: unseen signs first, then mistakes and slow answers; a sign answered right
+// several times in a row only comes back now and then
+export function practiceWeight(stats: SignStats | undefined): number {
+  if (!stats || stats.attempts === 0) return 3;
+  const mistakes = 1 - accuracyOf(stats);
+  const slowness = Math.min(1, (averageMsOf(stats) ?? SLOW_MS) / SLOW_MS);
+  const weight = 0.2 + 2 * mistakes + slowness;
+  return stats.streak >= MASTERED_STREAK ? weight / 3 : weight;
+}
+
+// Weighted draw, never the sign just practised (unless it is the only one); `random` returns 0..1
+export function pickNextSign(
+  signs: PracticeSign[],
+  progress: PracticeProgress,
+  previous: string | null = null,
+  random: () => number = Math.random
+): PracticeSign | null {
+  const pool = signs.length > 1 ? signs.filter((sign) => sign.key !== previous) : signs;
+  const weights = pool.map((sign) => practiceWeight(progress[sign.key]));
+  let r = random() * weights.reduce((sum, w) => sum + w, 0);
+  for (let i = 0; i < pool.length; i++) {
+    r -= weights[i];
+    if (r < 0) return pool[i];
+  }
+  return pool[pool.length - 1] ?? null;
+}
+
+// --- Storage (localStorage) ---
+const STORAGE_KEY = "hand-speak-practice";
+
+export function loadProgress(): PracticeProgress {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as PracticeProgress | null;
+    if (stored && typeof stored === "object") return stored;
+  } catch {
+    // corrupt or unavailable storage: start over
+  }
+  return {};
+}
+
+export function saveProgress(progress: PracticeProgress) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(progress));
+  } catch (e) {
+    console.warn("Could not save practice progress", e);
+  }
+}
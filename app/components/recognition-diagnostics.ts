@@ -0,0 +1,114 @@
+import {
+  type FeatureThresholds,
+  type FingerFeatures,
+  type FingerName,
+  FINGERS,
+  landmarkDistance,
+  type PalmOrientation
+} from "./hand-features";
+import type {GestureToken} from "./libras-logic";
+import {motionWindow, type Point2} from "./motion-templates";
+import type {FrameRecognition} from "./recognition-pipeline";
+import {DEFAULT_MOTION_DURATION, explainSign, featuresOf, getSigns, type HandInput, locateHand} from "./sign-engine";
+import type {BodyLocation} from "./body-anchors";
+
+// Debug overlay data: what the recognizer measured on the signing hand this frame, which sign fired,
+// which signs nearly did and the checks they failed, and the movement window motion signs look at.
+// Only computed while the overlay is on; explaining every sign is much slower than matching.
+
+export type FingerDiagnostics = Pick<FingerFeatures, "state" | "curl" | "extended">;
+
+// A distance the rules compare with a threshold, in palm lengths
+export type DistanceDiagnostics = {
+  label: string;
+  value: number;
+  threshold: number;
+  landmarks?: [number, number]; // drawn between these points
+};
+
+export type NearMiss = { signId: string; value: string | number; failures: string[] };
+
+export type MotionDiagnostics = {
+  windowMs: number; // longest movement a motion sign is matched over
+  coveredMs: number; // how much of it the hand's history covers
+  frames: number;
+  trail: Point2[]; // index fingertip across the window, normalised image coordinates
+};
+
+export type FrameDiagnostics = {
+  fingers: Record<FingerName, FingerDiagnostics>;
+  distances: DistanceDiagnostics[];
+  orientation: Pick<PalmOrientation, "facing" | "pointing">;
+  matched: { signId: string; token: GestureToken }[]; // this frame, best first: the first one fired
+  nearMisses: NearMiss[];
+  motion: MotionDiagnostics;
+  location: { location: BodyLocation; distance: number } | null; // of the palm; null without the body in view
+};
+
+const MAX_MATCHED = 4;
+const MAX_NEAR_MISSES = 4;
+const MAX_FAILURES = 2; // signs failing more checks than this aren't near misses
+const TRAIL_LANDMARK = 8;
+
+const THUMB_CONTACTS: [string, number][] = [["index", 8], ["middle", 12], ["ring", 16], ["pinky", 20]];
+
+export function diagnoseFrame(
+  {hands, candidates, body}: Pick<FrameRecognition, "hands" | "candidates" | "body">,
+  thresholds: FeatureThresholds
+): FrameDiagnostics | null {
+  const {dominant, nonDominant} = hands;
+  if (!dominant) return null;
+  const features = featuresOf(dominant.landmarks, dominant.handedness, thresholds);
+
+  const fingers = {} as Record<FingerName, FingerDiagnostics>;
+  for (const name of FINGERS) {
+    const {state, curl, extended} = features.fingers[name];
+    fingers[name] = {state, curl, extended};
+  }
+
+  const distances: DistanceDiagnostics[] = [
+    ...THUMB_CONTACTS.map(([name, tip]): DistanceDiagnostics => ({
+      label: `thumb–${name}`,
+      value: landmarkDistance(features, 4, tip),
+      threshold: thresholds.contactDistance,
+      landmarks: [4, tip],
+    })),
+    {label: "index–middle", value: landmarkDistance(features, 8, 12), threshold: thresholds.contactDistance, landmarks: [8, 12]},
+    {label: "thumb out", value: features.points[4].x - features.points[5].x, threshold: thresholds.thumbOutDistance},
+  ];
+
+  // Near misses: the signs failing the fewest checks. Two-handed signs wait for the other hand, movements
+  // for enough history and signs made at a place on the body for the body, rather than being reported as failing
+  const input: HandInput = {...dominant, thresholds, body};
+  const other: HandInput | null = nonDominant && {...nonDominant, thresholds, body};
+  const fired = new Set(candidates.map((c) => c.signId));
+  const ready = (duration = DEFAULT_MOTION_DURATION) => motionWindow(dominant.history, duration) !== null;
+  const nearMisses = getSigns((sign) =>
+    !fired.has(sign.id) && (!sign.nonDominant || !!other) && (!sign.motion || ready(sign.motion.duration)) &&
+    (!!body || (!sign.location && !sign.nonDominant?.location)))
+    .map((sign) => ({signId: sign.id, value: sign.value, priority: sign.priority, failures: explainSign(sign, input, other)}))
+    .filter(({failures}) => failures.length > 0 && failures.length <= MAX_FAILURES)
+    .sort((a, b) => a.failures.length - b.failures.length || b.priority - a.priority)
+    .slice(0, MAX_NEAR_MISSES)
+    .map(({signId, value, failures}) => ({signId, value, failures}));
+
+  const windowMs = Math.max(DEFAULT_MOTION_DURATION, ...getSigns((sign) => !!sign.motion)
+    .map((sign) => sign.motion?.duration ?? DEFAULT_MOTION_DURATION));
+  const frames = motionWindow(dominant.history, windowMs) ?? dominant.history;
+  const motion: MotionDiagnostics = {
+    windowMs,
+    coveredMs: frames.length > 0 ? frames[frames.length - 1].t - frames[0].t : 0,
+    frames: frames.length,
+    trail: frames.map(({landmarks}) => [landmarks[TRAIL_LANDMARK].x, landmarks[TRAIL_LANDMARK].y]),
+  };
+
+  return {
+    fingers,
+    distances,
+    orientation: {facing: features.orientation.facing, pointing: features.orientation.pointing},
+    matched: candidates.slice(0, MAX_MATCHED).map(({signId, token}) => ({signId, token})),
+    nearMisses,
+    motion,
+    location: locateHand(input),
+  };
+}
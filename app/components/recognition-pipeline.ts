@@ -0,0 +1,122 @@
+import type {Category, NormalizedLandmark} from "@mediapipe/tasks-vision";
+import {type GestureToken, rankHandSign, rankWordGesture} from "./libras-logic";
+import {rankTwoHandSign} from "./libras-two-hands";
+import {type DominantHand, type HandPair, HandTracker, pairHands} from "./hand-tracker";
+import {type ClassifierMode, fuseTokens, type SignClassifier} from "./sign-classifier";
+import {DEFAULT_THRESHOLDS, type FeatureThresholds} from "./hand-features";
+import {LandmarkFilter, type SmoothingOptions} from "./landmark-filter";
+import {type BodyAnchors, bodyAnchors} from "./body-anchors";
+import {TokenVoter, type VotingOptions} from "./token-voting";
+import {type Candidate, closeAlternatives} from "./sign-engine";
+import {filterByMode, type InputMode} from "./input-modes";
+import {handSpeed} from "./motion-templates";
+
+export type FrameRecognition = {
+  hands: HandPair;
+  token: GestureToken | null; // after voting over recent frames
+  rawToken: GestureToken | null; // this frame alone
+  candidates: Candidate[]; // this frame, best first
+  alternatives: GestureToken[]; // runner-ups close enough to `token` to be mistaken for it
+  speed: number; // signing hand, palm lengths per second (0 without a hand)
+  body: BodyAnchors | null; // where the face and shoulders are, without body tracking or out of view null
+};
+
+export type RecognitionOptions = {
+  classifier?: SignClassifier | null; // learned handshape model
+  classifierMode?: ClassifierMode; // defaults to "fuse"
+  thresholds?: FeatureThresholds; // signer's calibration
+  inputMode?: InputMode; // defaults to "auto"
+};
+
+// Per-frame recognition shared by the live camera loop and the replay runner, so both produce
+// exactly the same tokens for the same landmarks. Owns the hand tracker (identity, smoothing, history),
+// the body's smoothing and the token voter.
+export class Recognizer {
+  private readonly tracker = new HandTracker();
+  private readonly voter = new TokenVoter();
+  private bodyFilter = new LandmarkFilter();
+  // Optional learned handshape model, combined with the rules according to classifierMode
+  classifier: SignClassifier | null = null;
+  classifierMode: ClassifierMode = "fuse";
+  // Feature thresholds of the active calibration profile
+  thresholds: FeatureThresholds = DEFAULT_THRESHOLDS;
+  // Letters only, numbers only, or both
+  inputMode: InputMode = "auto";
+
+  constructor(public dominantHand: DominantHand = "right") {
+  }
+
+  reset() {
+    this.tracker.reset();
+    this.voter.reset();
+    this.bodyFilter.reset();
+  }
+
+  setSmoothing(options: SmoothingOptions) {
+    this.tracker.setSmoothing(options);
+    this.bodyFilter = new LandmarkFilter(options);
+  }
+
+  setHistoryWindow(ms: number) {
+    this.tracker.setHistoryWindow(ms);
+  }
+
+  setVoting(options: VotingOptions) {
+    this.voter.options = options;
+    this.voter.reset();
+  }
+
+  // `t` is the frame time in ms (camera clock live, recorded timestamps on replay); `pose` is the pose
+  // landmarker's body, when body tracking is on
+  process(landmarks: NormalizedLandmark[][], handedness: Category[][], t: number, pose: NormalizedLandmark[] | null = null): FrameRecognition {
+    const hands = pairHands(this.tracker.update(landmarks, handedness, t), this.dominantHand);
+    const body = bodyAnchors(pose && this.bodyFilter.apply(pose, t));
+    const {classifier, classifierMode, thresholds, inputMode} = this;
+    const candidates = recognizeHands(hands, {classifier, classifierMode, thresholds, inputMode}, body);
+    const rawToken = candidates[0]?.token ?? null;
+    const token = this.voter.push(rawToken, t);
+    // Alternatives only make sense while the frame agrees with the voted token
+    const alternatives = token && rawToken && sameToken(token, rawToken) ? closeAlternatives(candidates) : [];
+    const speed = hands.dominant ? handSpeed(hands.dominant.history) : 0;
+    return {hands, token, rawToken, candidates, alternatives, speed, body};
+  }
+}
+
+// Ranked candidates for the frame, best first. Two-handed signs come before movements, and movements
+// before the signing hand's static shape; the later groups stay in the list as runner-ups.
+// Signs made at a place on the body only match with the `body` in view.
+export function recognizeHands(
+  {dominant, nonDominant}: HandPair,
+  {classifier = null, classifierMode = "fuse", thresholds, inputMode = "auto"}: RecognitionOptions = {},
+  body: BodyAnchors | null = null
+): Candidate[] {
+  if (!dominant) return [];
+
+  // 1) Two-handed signs when both hands are in view
+  const twoHand = nonDominant ? rankTwoHandSign(dominant, nonDominant, thresholds, body) : [];
+
+  // 2) Direct WORD gesture from the signing hand's recent motion
+  const motion = rankWordGesture(dominant.history, dominant.handedness, thresholds, body);
+
+  // 3) LETTER / NUMBER for the current frame (as allowed by the input mode), checked against the user's trained model
+  let handshape = filterByMode(rankHandSign(dominant.landmarks, dominant.handedness, thresholds, body), inputMode);
+  if (classifier && !classifier.isEmpty && classifierMode !== "rules") {
+    const ruleToken = handshape[0]?.token ?? null;
+    const learned = classifier.predict(dominant.landmarks, dominant.handedness, thresholds);
+    const fused = fuseTokens(ruleToken, learned, classifierMode);
+    if (classifierMode === "learned") handshape = [];
+    if (fused && fused !== ruleToken) {
+      const top: Candidate = {token: fused, priority: handshape[0]?.priority ?? 0, signId: "learned-model"};
+      handshape = [top, ...handshape.filter((c) => !sameToken(c.token, fused))];
+    }
+  }
+
+  const seen: GestureToken[] = [];
+  return filterByMode([...twoHand, ...motion, ...handshape], inputMode).filter(({token}) => {
+    if (seen.some((other) => sameToken(other, token))) return false;
+    seen.push(token);
+    return true;
+  });
+}
+
+const sameToken = (a: GestureToken, b: GestureToken) => a.type === b.type && a.value === b.value;
@@ -0,0 +1,97 @@
+import type {Category, HandLandmarkerResult, NormalizedLandmark} from "@mediapipe/tasks-vision";
+import type {FeatureThresholds} from "./hand-features";
+import type {DominantHand} from "./hand-tracker";
+import type {InputMode} from "./input-modes";
+import type {TypingMode} from "./transcription-engine";
+
+// Versioned on-disk format for captured signing sessions (JSONL: one header line, then one line per frame)
+export const RECORDING_FORMAT = "hand-speak-session";
+export const RECORDING_VERSION = 1;
+
+export type RecordingHeader = {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  createdAt: string; // ISO date
+  label?: string; // free text, e.g. "ASSIM, right hand, 30fps laptop"
+  expectedTranscript?: string; // when set, the replay runner checks the transcript against it
+  dominantHand?: DominantHand; // signer's dominant hand setting while recording (default right)
+  thresholds?: FeatureThresholds; // calibration profile active while recording (default thresholds)
+  inputMode?: InputMode; // input mode when the recording started (default auto)
+  typingMode?: TypingMode; // hold or continuous typing (default hold)
+};
+
+export type RecordedFrame = {
+  t: number; // ms since the recording started
+  landmarks: NormalizedLandmark[][]; // one entry per detected hand
+  handedness: Category[][];
+  pose?: NormalizedLandmark[]; // the body, when body tracking was on and found one
+};
+
+export type SessionRecording = {
+  header: RecordingHeader;
+  frames: RecordedFrame[];
+};
+
+export function createRecording(details: Pick<RecordingHeader, "label" | "dominantHand" | "thresholds" | "inputMode" | "typingMode"> = {}): SessionRecording {
+  return {
+    header: {format: RECORDING_FORMAT, version: RECORDING_VERSION, createdAt: new Date().toISOString(), ...details},
+    frames: [],
+  };
+}
+
+// Copy into plain objects: MediaPipe results are reused buffers and may carry extra fields
+const copyLandmark = (l: NormalizedLandmark): NormalizedLandmark => ({x: l.x, y: l.y, z: l.z, visibility: l.visibility});
+const copyCategory = (c: Category): Category => ({
+  score: c.score,
+  index: c.index,
+  categoryName: c.categoryName,
+  displayName: c.displayName,
+});
+
+export function recordFrame(
+  recording: SessionRecording,
+  t: number,
+  result: Pick<HandLandmarkerResult, "landmarks" | "handedness"> & { pose?: NormalizedLandmark[] | null }
+) {
+  recording.frames.push({
+    t,
+    landmarks: result.landmarks.map((hand) => hand.map(copyLandmark)),
+    handedness: result.handedness.map((cats) => cats.map(copyCategory)),
+    ...(result.pose && {pose: result.pose.map(copyLandmark)}),
+  });
+}
+
+export function serializeRecording(recording: SessionRecording): string {
+  return [recording.header, ...recording.frames].map((line) => JSON.stringify(line)).join("\n") + "\n";
+}
+
+// Accepts the JSONL format written by serializeRecording, or a single JSON document {header, frames}
+export function parseRecording(text: string): SessionRecording {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error("Empty recording");
+
+  let header: RecordingHeader;
+  let frames: RecordedFrame[];
+
+  const firstLineEnd = trimmed.indexOf("\n");
+  const firstLine = JSON.parse(firstLineEnd === -1 ? trimmed : trimmed.slice(0, firstLineEnd));
+  if (firstLine && firstLine.header && Array.isArray(firstLine.frames)) {
+    header = firstLine.header;
+    frames = firstLine.frames;
+  } else {
+    header = firstLine;
+    frames = trimmed
+      .split("\n")
+      .slice(1)
+      .filter((line) => line.trim().length > 0)
+      .map((line) => JSON.parse(line) as RecordedFrame);
+  }
+
+  if (header?.format !== RECORDING_FORMAT) {
+    throw new Error(`Not a ${RECORDING_FORMAT} recording`);
+  }
+  if (header.version > RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${header.version} (max ${RECORDING_VERSION})`);
+  }
+  return {header, frames};
+}
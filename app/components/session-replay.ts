@@ -0,0 +1,136 @@
+import type {GestureToken} from "./libras-logic";
+import {Recognizer} from "./recognition-pipeline";
+import type {SessionRecording} from "./session-recording";
+import type {SignClassifier} from "./sign-classifier";
+import {appendToTranscript, TranscriptionSession, type TranscriptionOptions} from "./transcription-engine";
+import {applyEditCommand, createHistory, editTranscript, isEditCommand} from "./transcript-history";
+import {nextInputMode} from "./input-modes";
+import {applySuggestion, finishWord, Lexicon, type SpelledLetter} from "./word-prediction";
+import {PT_BR_WORDS} from "./lexicon/pt-br";
+import {type CharTiming, createLog, logEvent, type TranscriptEventKind, type TranscriptLog, updateLogText} from "./transcript-log";
+
+export type ReplayStep = {
+  t: number;
+  token: GestureToken | null; // recognised token for this frame
+  alternatives: GestureToken[]; // runner-ups close to the token
+  confirmed: string | null; // letter, word or command committed on this frame
+};
+
+export type ReplayResult = {
+  transcript: string;
+  steps: ReplayStep[];
+  log: TranscriptLog; // timed on the recording's clock: started at the epoch, times are frame timestamps
+};
+
+// Feeds a recorded session through the recognition and transcription pipeline without a camera.
+// Timing comes from the recorded frame timestamps, so the output is deterministic. Control gestures
+// edit the transcript as they do in the app (ACCEPT takes the first suggestion of the bundled lexicon),
+// and the transcript log is kept as in the app, so a recording (or a captioned video) yields captions.
+export function replaySession(
+  recording: SessionRecording,
+  options: Partial<TranscriptionOptions> = {},
+  classifier: SignClassifier | null = null
+): ReplayResult {
+  let now = 0;
+  const session = new TranscriptionSession({typingMode: recording.header.typingMode ?? "hold", ...options}, () => now);
+
+  const recognizer = new Recognizer(recording.header.dominantHand);
+  recognizer.classifier = classifier;
+  if (recording.header.thresholds) recognizer.thresholds = recording.header.thresholds;
+  const setInputMode = (mode: typeof recognizer.inputMode) => {
+    recognizer.inputMode = mode;
+    session.setOptions({composeNumbers: mode === "numbers"});
+  };
+  if (recording.header.inputMode) setInputMode(recording.header.inputMode);
+
+  const lexicon = new Lexicon(PT_BR_WORDS);
+  let spelled: SpelledLetter[] = [];
+  const steps: ReplayStep[] = [];
+  let history = createHistory();
+  let confirmed: string | null = null;
+  const edit = (update: (text: string) => string) => {
+    history = editTranscript(history, update(history.present));
+  };
+  let log = createLog(new Date(0));
+  let timing: CharTiming | null = null;
+  const record = (
+    kind: TranscriptEventKind, value: string, start: number, time: number,
+    token?: GestureToken, alternatives: GestureToken[] = []
+  ) => {
+    timing = {start, end: time, confidence: token?.confidence ?? 1};
+    log = logEvent(log, {
+      kind, value, ...timing, confidence: token?.confidence,
+      ...(alternatives.length > 0 && {alternatives: alternatives.map((alt) => String(alt.value))}),
+    });
+  };
+
+  session.on("letterConfirmed", ({letter, token, start, time, alternatives}) => {
+    record("letter", letter, start, time, token, alternatives);
+    spelled.push({letter, alternatives: alternatives.filter((alt) => alt.type === "LETTER").map((alt) => String(alt.value))});
+    edit((text) => appendToTranscript(text, letter, "letter"));
+    confirmed = letter;
+  });
+  session.on("numberConfirmed", ({value, start, time}) => {
+    record("number", value, start, time);
+    spelled = [];
+    edit((text) => (text.endsWith(" ") ? text : text + " "));
+  });
+  session.on("wordEnded", ({word}) => {
+    edit((text) => finishWord(lexicon, text, word, spelled));
+    spelled = [];
+  });
+  session.on("wordConfirmed", ({word, token, start, time}) => {
+    record("word", word, start, time, token);
+    spelled = [];
+    edit((text) => appendToTranscript(text, word, "word"));
+    confirmed = word;
+  });
+  session.on("commandConfirmed", ({command, token, start, time}) => {
+    record("command", command, start, time, token);
+    confirmed = `<${command}>`;
+    if (command === "ACCEPT") {
+      const [best] = lexicon.suggestFor(history.present, spelled);
+      if (best) edit((text) => applySuggestion(text, best.word));
+      spelled = [];
+      return;
+    }
+    if (command === "MODE") {
+      setInputMode(nextInputMode(recognizer.inputMode));
+      return;
+    }
+    if (!isEditCommand(command)) return;
+    // Same bookkeeping as the app's buttons
+    switch (command) {
+      case "SPACE":
+        spelled = [];
+        if (session.pendingNumber !== null) {
+          session.flushNumber(); // closes the number with a space
+          return;
+        }
+        break;
+      case "BACKSPACE":
+      case "UNDO":
+        spelled = spelled.slice(0, -1);
+        session.dropDigit();
+        break;
+      case "CLEAR":
+        spelled = [];
+        session.reset();
+        break;
+    }
+    history = applyEditCommand(history, command);
+  });
+
+  for (const frame of recording.frames) {
+    const {hands, token, alternatives, speed} = recognizer.process(frame.landmarks, frame.handedness, frame.t, frame.pose);
+
+    now = frame.t;
+    confirmed = null;
+    session.push(token, alternatives, hands.dominant ? {speed} : null);
+    steps.push({t: frame.t, token, alternatives, confirmed});
+    log = updateLogText(log, history.present, timing ?? {start: now, end: now, confidence: 1});
+    timing = null;
+  }
+
+  return {transcript: history.present, steps, log};
+}
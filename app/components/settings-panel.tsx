@@ -0,0 +1,107 @@
+import {useState} from "react";
+import {DEFAULT_SETTINGS, SETTING_FIELDS, type SettingField, type Settings, SETTINGS_GROUPS} from "./settings";
+
+type SettingsPanelProps = {
+  settings: Settings;
+  onChange: (patch: Partial<Settings>) => void;
+  onReset: () => void;
+  shareUrl: string; // the page with these settings as URL parameters
+};
+
+// Tune recognition: every change applies to the running camera at once and is remembered on this device
+export function SettingsPanel({settings, onChange, onReset, shareUrl}: SettingsPanelProps) {
+  const [open, setOpen] = useState(false);
+  const [copied, setCopied] = useState(false);
+  const changed = SETTING_FIELDS.filter(({key}) => settings[key] !== DEFAULT_SETTINGS[key]).length;
+  // The typing mode not in use keeps its settings, greyed out
+  const idleGroup = settings.typingMode === "hold" ? "continuous" : "hold";
+
+  async function copyLink() {
+    try {
+      await navigator.clipboard.writeText(shareUrl);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      prompt("Copy this link:", shareUrl); // clipboard blocked (no HTTPS or permission)
+    }
+  }
+
+  function renderField(field: SettingField) {
+    switch (field.type) {
+      case "number":
+        return (
+          <label key={field.key} className="flex items-center gap-3 text-sm" title={field.hint}>
+            <span className="w-48 text-gray-600">{field.label}</span>
+            <input type="range" min={field.min} max={field.max} step={field.step} value={settings[field.key]}
+                   onChange={(e) => onChange({[field.key]: Number(e.target.value)})}
+                   className="flex-1 accent-[#007f8b]"/>
+            <span className="w-24 text-right font-mono text-xs text-gray-500">
+              {settings[field.key]}{field.unit && ` ${field.unit}`}
+            </span>
+          </label>
+        );
+      case "boolean":
+        return (
+          <label key={field.key} className="flex items-center gap-3 text-sm" title={field.hint}>
+            <span className="w-48 text-gray-600">{field.label}</span>
+            <input type="checkbox" checked={settings[field.key]} onChange={(e) => onChange({[field.key]: e.target.checked})}
+                   className="accent-[#007f8b]"/>
+          </label>
+        );
+      case "choice":
+        return (
+          <div key={field.key} className="flex items-center gap-3 text-sm" title={field.hint}>
+            <span className="w-48 text-gray-600">{field.label}</span>
+            <div className="flex rounded overflow-hidden border border-gray-200">
+              {field.options.map(({value, label}) => (
+                <button key={value} onClick={() => onChange({[field.key]: value})}
+                        className={`px-2 py-1 font-medium ${
+                          settings[field.key] === value ? "bg-[#007f8b] text-white" : "bg-gray-100 hover:bg-gray-200"
+                        }`}>
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        );
+    }
+  }
+
+  return (
+    <div className="w-full max-w-[640px] bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+      <div className="flex justify-between items-end">
+        <h3 className="text-gray-500 text-sm font-bold uppercase tracking-wider">Settings</h3>
+        <div className="flex gap-3 items-center text-xs">
+          {changed > 0 && <span className="text-gray-400">{changed} changed</span>}
+          <button onClick={() => setOpen((o) => !o)} className="text-[#007f8b] hover:underline">
+            {open ? "Hide" : "Show"}
+          </button>
+        </div>
+      </div>
+
+      {open && (
+        <>
+          {SETTINGS_GROUPS.map((group) => (
+            <div key={group.id} className={`mt-4 ${group.id === idleGroup ? "opacity-50" : ""}`}>
+              <p className="text-xs text-gray-400 uppercase font-semibold mb-2">
+                {group.title}{group.id === idleGroup && " (not in use)"}
+              </p>
+              <div className="flex flex-col gap-2">
+                {SETTING_FIELDS.filter((field) => field.group === group.id).map(renderField)}
+              </div>
+            </div>
+          ))}
+          <div className="mt-4 flex gap-4 text-sm">
+            <button onClick={copyLink} className="text-[#007f8b] hover:underline">
+              {copied ? "Link copied" : "Copy Link with Settings"}
+            </button>
+            <button onClick={onReset} disabled={changed === 0}
+                    className="text-red-500 hover:underline disabled:opacity-40 disabled:no-underline">
+              Reset to Defaults
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
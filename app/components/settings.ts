@@ -0,0 +1,211 @@
+import {type DominantHand, HISTORY_WINDOW_MS} from "./hand-tracker";
+import {DEFAULT_DETECTION, type DetectionOptions} from "./hand-landmarker";
+import {DEFAULT_SMOOTHING, type SmoothingOptions} from "./landmark-filter";
+import {DEFAULT_VOTING, type VotingOptions} from "./token-voting";
+import {DEFAULT_TRANSCRIPTION_OPTIONS, type TranscriptionOptions, type TypingMode} from "./transcription-engine";
+
+// Recognition settings the signer can tune: typing timings, camera view, tracking and hand detection.
+// Kept flat so each one maps to a URL parameter of the same name (?holdDuration=600&mirrorVideo=0), which
+// makes a tuned setup shareable as a link.
+
+type TranscriptionSettings = Pick<TranscriptionOptions,
+  "typingMode" | "holdDuration" | "earlyLockMs" | "highConfidence" | "wordCooldown" | "commandHold" | "releaseMs" |
+  "letterMinMs" | "stillSpeed" | "wordPause" | "wordDrop">;
+
+export type Settings = TranscriptionSettings & DetectionOptions & {
+  dominantHand: DominantHand;
+  mirrorVideo: boolean; // show the camera like a mirror (detection always sees the unmirrored frame)
+  historyMs: number; // landmark history kept per hand for movements
+  smoothing: boolean;
+  smoothingMinCutoff: number;
+  smoothingBeta: number;
+  votingWindowMs: number;
+  bodyTracking: boolean; // find the face and shoulders too, for signs made at a place on the body
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  dominantHand: "right",
+  mirrorVideo: true,
+  typingMode: DEFAULT_TRANSCRIPTION_OPTIONS.typingMode,
+  holdDuration: DEFAULT_TRANSCRIPTION_OPTIONS.holdDuration,
+  earlyLockMs: DEFAULT_TRANSCRIPTION_OPTIONS.earlyLockMs,
+  highConfidence: DEFAULT_TRANSCRIPTION_OPTIONS.highConfidence,
+  wordCooldown: DEFAULT_TRANSCRIPTION_OPTIONS.wordCooldown,
+  commandHold: DEFAULT_TRANSCRIPTION_OPTIONS.commandHold,
+  releaseMs: DEFAULT_TRANSCRIPTION_OPTIONS.releaseMs,
+  letterMinMs: DEFAULT_TRANSCRIPTION_OPTIONS.letterMinMs,
+  stillSpeed: DEFAULT_TRANSCRIPTION_OPTIONS.stillSpeed,
+  wordPause: DEFAULT_TRANSCRIPTION_OPTIONS.wordPause,
+  wordDrop: DEFAULT_TRANSCRIPTION_OPTIONS.wordDrop,
+  historyMs: HISTORY_WINDOW_MS,
+  smoothing: DEFAULT_SMOOTHING.enabled,
+  smoothingMinCutoff: DEFAULT_SMOOTHING.minCutoff,
+  smoothingBeta: DEFAULT_SMOOTHING.beta,
+  votingWindowMs: DEFAULT_VOTING.windowMs,
+  bodyTracking: true,
+  ...DEFAULT_DETECTION,
+};
+
+export type SettingsGroup = "general" | "hold" | "continuous" | "tracking" | "detection";
+
+export const SETTINGS_GROUPS: { id: SettingsGroup; title: string }[] = [
+  {id: "general", title: "General"},
+  {id: "hold", title: "Hold to Type"},
+  {id: "continuous", title: "Continuous Spelling"},
+  {id: "tracking", title: "Tracking"},
+  {id: "detection", title: "Hand Detection"},
+];
+
+type FieldBase<K extends keyof Settings> = { key: K; group: SettingsGroup; label: string; hint?: string };
+
+export type SettingField =
+  | FieldBase<{ [K in keyof Settings]: Settings[K] extends number ? K : never }[keyof Settings]> & {
+  type: "number"; min: number; max: number; step: number; unit?: string;
+}
+  | FieldBase<{ [K in keyof Settings]: Settings[K] extends boolean ? K : never }[keyof Settings]> & { type: "boolean" }
+  | FieldBase<"dominantHand" | "typingMode"> & { type: "choice"; options: { value: string; label: string }[] };
+
+// Every setting, in panel order; the ranges also validate stored and URL values
+export const SETTING_FIELDS: SettingField[] = [
+  {
+    key: "dominantHand", group: "general", label: "Signing hand", type: "choice",
+    options: [{value: "right", label: "Right"}, {value: "left", label: "Left"}],
+  },
+  {
+    key: "typingMode", group: "general", label: "Typing", type: "choice",
+    options: [{value: "hold", label: "Hold to type"}, {value: "continuous", label: "Continuous spelling"}],
+  },
+  {key: "mirrorVideo", group: "general", label: "Mirror the camera", type: "boolean"},
+
+  {key: "holdDuration", group: "hold", label: "Hold time", type: "number", min: 100, max: 2000, step: 50, unit: "ms"},
+  {
+    key: "earlyLockMs", group: "hold", label: "Early lock", type: "number", min: 50, max: 2000, step: 50, unit: "ms",
+    hint: "Hold time for signs recognised with high confidence",
+  },
+  {key: "highConfidence", group: "hold", label: "High confidence", type: "number", min: 0.5, max: 1, step: 0.01},
+  {key: "commandHold", group: "hold", label: "Control gesture hold", type: "number", min: 200, max: 3000, step: 50, unit: "ms"},
+  {
+    key: "releaseMs", group: "hold", label: "Release", type: "number", min: 0, max: 1000, step: 25, unit: "ms",
+    hint: "How long a typed sign has to be gone before it can be typed again",
+  },
+  {
+    key: "wordCooldown", group: "hold", label: "Movement cooldown", type: "number", min: 0, max: 3000, step: 50, unit: "ms",
+    hint: "How soon a sign made by a movement can be typed again",
+  },
+
+  {key: "letterMinMs", group: "continuous", label: "Shortest letter", type: "number", min: 40, max: 500, step: 10, unit: "ms"},
+  {
+    key: "stillSpeed", group: "continuous", label: "Still below", type: "number", min: 0.5, max: 6, step: 0.1,
+    unit: "palms/s",
+  },
+  {key: "wordPause", group: "continuous", label: "Pause ending a word", type: "number", min: 200, max: 3000, step: 50, unit: "ms"},
+  {key: "wordDrop", group: "continuous", label: "Hand gone ending a word", type: "number", min: 100, max: 2000, step: 50, unit: "ms"},
+
+  {
+    key: "historyMs", group: "tracking", label: "Movement history", type: "number", min: 600, max: 5000, step: 100, unit: "ms",
+    hint: "How far back movements are looked for; also the longest movement that can be recorded",
+  },
+  {key: "smoothing", group: "tracking", label: "Smooth landmarks", type: "boolean"},
+  {key: "smoothingMinCutoff", group: "tracking", label: "Smoothing at rest", type: "number", min: 0.1, max: 10, step: 0.1, unit: "Hz"},
+  {key: "smoothingBeta", group: "tracking", label: "Smoothing speed response", type: "number", min: 0, max: 200, step: 5},
+  {
+    key: "votingWindowMs", group: "tracking", label: "Voting window", type: "number", min: 0, max: 1000, step: 25, unit: "ms",
+    hint: "Frames voting on the recognised sign; 0 turns voting off",
+  },
+  {
+    key: "bodyTracking", group: "tracking", label: "Track face and body", type: "boolean",
+    hint: "Needed for signs made at the chin, forehead or chest; off saves some processing per frame",
+  },
+
+  {key: "minHandDetectionConfidence", group: "detection", label: "Detection confidence", type: "number", min: 0.1, max: 0.95, step: 0.05},
+  {key: "minHandPresenceConfidence", group: "detection", label: "Presence confidence", type: "number", min: 0.1, max: 0.95, step: 0.05},
+  {key: "minTrackingConfidence", group: "detection", label: "Tracking confidence", type: "number", min: 0.1, max: 0.95, step: 0.05},
+];
+
+// Valid values only, numbers clamped to their range; accepts the strings of URL parameters too
+export function parseSettings(raw: Record<string, unknown>): Partial<Settings> {
+  const settings: Record<string, unknown> = {};
+  for (const field of SETTING_FIELDS) {
+    const value = raw[field.key];
+    if (value === undefined || value === null || value === "") continue;
+    switch (field.type) {
+      case "number": {
+        const number = Number(value);
+        if (Number.isFinite(number)) settings[field.key] = Math.min(field.max, Math.max(field.min, number));
+        break;
+      }
+      case "boolean":
+        if (value === true || value === "1" || value === "true") settings[field.key] = true;
+        if (value === false || value === "0" || value === "false") settings[field.key] = false;
+        break;
+      case "choice":
+        if (field.options.some((option) => option.value === value)) settings[field.key] = value;
+        break;
+    }
+  }
+  return settings as Partial<Settings>;
+}
+
+export function settingsFromUrl(search: string): Partial<Settings> {
+  return parseSettings(Object.fromEntries(new URLSearchParams(search)));
+}
+
+// A link to `base` with the settings that differ from the defaults
+export function settingsUrl(settings: Settings, base: string): string {
+  const url = new URL(base);
+  url.search = "";
+  for (const {key} of SETTING_FIELDS) {
+    const value = settings[key];
+    if (value === DEFAULT_SETTINGS[key]) continue;
+    url.searchParams.set(key, typeof value === "boolean" ? (value ? "1" : "0") : String(value));
+  }
+  return url.toString();
+}
+
+// What each part of the pipeline takes from the settings
+
+export function transcriptionOptions(settings: Settings): Partial<TranscriptionOptions> {
+  const {typingMode, holdDuration, earlyLockMs, highConfidence, wordCooldown, commandHold, releaseMs,
+    letterMinMs, stillSpeed, wordPause, wordDrop} = settings;
+  return {typingMode, holdDuration, earlyLockMs, highConfidence, wordCooldown, commandHold, releaseMs,
+    letterMinMs, stillSpeed, wordPause, wordDrop};
+}
+
+export function smoothingOptions(settings: Settings): SmoothingOptions {
+  return {
+    ...DEFAULT_SMOOTHING,
+    enabled: settings.smoothing,
+    minCutoff: settings.smoothingMinCutoff,
+    beta: settings.smoothingBeta,
+  };
+}
+
+export function votingOptions(settings: Settings): VotingOptions {
+  return {windowMs: settings.votingWindowMs};
+}
+
+export function detectionOptions(settings: Settings): DetectionOptions {
+  const {minHandDetectionConfidence, minHandPresenceConfidence, minTrackingConfidence} = settings;
+  return {minHandDetectionConfidence, minHandPresenceConfidence, minTrackingConfidence};
+}
+
+// --- Storage (localStorage) ---
+const STORAGE_KEY = "hand-speak-settings";
+
+export function loadSettings(): Settings {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    if (stored && typeof stored === "object") return {...DEFAULT_SETTINGS, ...parseSettings(stored)};
+  } catch {
+    // corrupt or unavailable storage: defaults
+  }
+  return DEFAULT_SETTINGS;
+}
+
+export function saveSettings(settings: Settings) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.warn("Could not save the settings", e);
+  }
+}
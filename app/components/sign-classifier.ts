@@ -0,0 +1,162 @@
+import type {Category, NormalizedLandmark} from "@mediapipe/tasks-vision";
+import type {FeatureThresholds, HandFeatures} from "./hand-features";
+import type {GestureToken} from "./libras-logic";
+import {featuresOf} from "./sign-engine";
+
+// Learned recognition path: a k-nearest-neighbours classifier over handshape samples the user records
+// from the webcam. "Training" is storing normalised samples, so a model is just its sample set and
+// can be saved, shared as a file and extended one sign at a time.
+
+export const MODEL_FORMAT = "hand-speak-model";
+export const MODEL_VERSION = 1;
+
+export type TrainingSample = {
+  type: GestureToken["type"];
+  value: string | number;
+  vector: number[]; // handVector() of one frame
+};
+
+export type TrainedModel = {
+  format: typeof MODEL_FORMAT;
+  version: number;
+  name: string; // e.g. the signer it was tuned for
+  createdAt: string; // ISO date
+  updatedAt: string;
+  samples: TrainingSample[];
+};
+
+// How learned predictions combine with the rule-based token
+// rules = sign packs only, learned = model only, fuse = model when it is confident, rules otherwise
+export type ClassifierMode = "rules" | "fuse" | "learned";
+
+const K = 5;
+const ORIENTATION_WEIGHT = 0.5; // palm direction matters (P vs K, Q vs G) but less than the shape
+const MAX_DISTANCE = 0.35; // RMS palm lengths; anything further from every sample is "not trained"
+const FUSE_MIN_CONFIDENCE = 0.7;
+const VECTOR_LENGTH = 20 * 3 + 2 * 3;
+
+// Palm-frame fingertip/joint positions (wrist omitted, it is the origin) plus the palm orientation.
+// Palm-frame points are invariant to hand size, position and side, so samples transfer between signers.
+export function handVector(features: HandFeatures): number[] {
+  const vector: number[] = [];
+  for (const p of features.points.slice(1)) vector.push(p.x, p.y, p.z);
+  const {up, normal} = features.orientation;
+  for (const v of [up, normal]) {
+    vector.push(v.x * ORIENTATION_WEIGHT, v.y * ORIENTATION_WEIGHT, v.z * ORIENTATION_WEIGHT);
+  }
+  return vector;
+}
+
+// Root mean square distance per 3D point, in palm lengths
+function distance(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += (a[i] - b[i]) ** 2;
+  return Math.sqrt(sum / (a.length / 3));
+}
+
+const sampleKey = (sample: Pick<TrainingSample, "type" | "value">) => `${sample.type}:${sample.value}`;
+
+export class SignClassifier {
+  constructor(public model: TrainedModel) {
+  }
+
+  get isEmpty() {
+    return this.model.samples.length === 0;
+  }
+
+  predict(landmarks: NormalizedLandmark[], handedness: Category, thresholds?: FeatureThresholds): GestureToken | null {
+    if (this.isEmpty || !landmarks || landmarks.length === 0) return null;
+    const vector = handVector(featuresOf(landmarks, handedness, thresholds));
+
+    const nearest = this.model.samples
+      .map((sample) => ({sample, distance: distance(vector, sample.vector)}))
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, K);
+    if (nearest[0].distance > MAX_DISTANCE) return null;
+
+    // Distance-weighted vote among the neighbours that are close enough
+    const votes = new Map<string, { sample: TrainingSample; weight: number }>();
+    let total = 0;
+    for (const {sample, distance} of nearest) {
+      if (distance > MAX_DISTANCE) continue;
+      const weight = 1 - distance / MAX_DISTANCE;
+      const key = sampleKey(sample);
+      const vote = votes.get(key) ?? {sample, weight: 0};
+      vote.weight += weight;
+      votes.set(key, vote);
+      total += weight;
+    }
+
+    const best = [...votes.values()].sort((a, b) => b.weight - a.weight)[0];
+    const closeness = 1 - nearest[0].distance / MAX_DISTANCE / 2;
+    return {type: best.sample.type, value: best.sample.value, confidence: (best.weight / total) * closeness};
+  }
+}
+
+// Combines the rule-based token with the learned one according to the mode
+export function fuseTokens(rule: GestureToken | null, learned: GestureToken | null, mode: ClassifierMode): GestureToken | null {
+  switch (mode) {
+    case "rules":
+      return rule;
+    case "learned":
+      return learned;
+    case "fuse":
+      if (!learned || learned.confidence < FUSE_MIN_CONFIDENCE) return rule;
+      if (rule && sampleKey(rule) === sampleKey(learned)) {
+        return {...rule, confidence: Math.max(rule.confidence, learned.confidence)};
+      }
+      return learned;
+  }
+}
+
+// --- Model building ---
+
+export function createModel(name: string): TrainedModel {
+  const now = new Date().toISOString();
+  return {format: MODEL_FORMAT, version: MODEL_VERSION, name, createdAt: now, updatedAt: now, samples: []};
+}
+
+export function addSamples(model: TrainedModel, samples: TrainingSample[]): TrainedModel {
+  return {...model, updatedAt: new Date().toISOString(), samples: [...model.samples, ...samples]};
+}
+
+export function removeSign(model: TrainedModel, sign: Pick<TrainingSample, "type" | "value">): TrainedModel {
+  const key = sampleKey(sign);
+  return {
+    ...model,
+    updatedAt: new Date().toISOString(),
+    samples: model.samples.filter((sample) => sampleKey(sample) !== key),
+  };
+}
+
+// Number of samples per trained sign, in the order they were first recorded
+export function summarizeModel(model: TrainedModel): { type: GestureToken["type"]; value: string | number; count: number }[] {
+  const signs = new Map<string, { type: GestureToken["type"]; value: string | number; count: number }>();
+  for (const sample of model.samples) {
+    const key = sampleKey(sample);
+    const sign = signs.get(key) ?? {type: sample.type, value: sample.value, count: 0};
+    sign.count++;
+    signs.set(key, sign);
+  }
+  return [...signs.values()];
+}
+
+// --- Files ---
+
+export function serializeModel(model: TrainedModel): string {
+  return JSON.stringify(model);
+}
+
+export function parseModel(text: string): TrainedModel {
+  const model = JSON.parse(text) as TrainedModel;
+  if (model?.format !== MODEL_FORMAT) {
+    throw new Error(`Not a ${MODEL_FORMAT} file`);
+  }
+  if (model.version > MODEL_VERSION) {
+    throw new Error(`Unsupported model version ${model.version} (max ${MODEL_VERSION})`);
+  }
+  if (!Array.isArray(model.samples) || model.samples.some((s) => s.vector?.length !== VECTOR_LENGTH)) {
+    throw new Error("Model has no valid samples");
+  }
+  return model;
+}
@@ -0,0 +1,229 @@
+import type {FingerName, FingerState, PalmFacing, ScreenDirection} from "./hand-features";
+import {BODY_ANCHORS, type BodyLocation} from "./body-anchors";
+
+// Declarative sign format. Signs are plain data (TypeScript modules for the built-in packs, JSON for
+// packs loaded at runtime) evaluated by the sign engine, so adding or fixing a sign never touches
+// recognizer code and conflicts are settled by explicit priorities instead of rule order.
+
+export type SignType = "LETTER" | "NUMBER" | "WORD" | "COMMAND";
+
+// "hooked": knuckle straight, middle joint folded (X, E). "closed": anything but extended.
+export type FingerSpec = FingerState | "hooked" | "closed";
+
+// Where the thumb is, on top of its bend state:
+// out = held out to the side (L, Y), in = not out (B, D), beside = upright against the side of a fist (A),
+// across = folded over the fingers (S), parallel = straight along the index finger (G, Q)
+export type ThumbPosition = "out" | "in" | "beside" | "across" | "parallel";
+
+// Landmarks by name ("thumbTip", "indexPip", "wrist", ...) or MediaPipe index (0-20)
+export type LandmarkRef = string | number;
+
+export type ContactSpec = {
+  a: LandmarkRef;
+  b: LandmarkRef;
+  touching: boolean; // true: closer than threshold, false: further apart
+  threshold?: number; // palm lengths, defaults to the contact distance of the feature thresholds
+};
+
+export type SpreadSpec = {
+  between: "thumbIndex" | "indexMiddle" | "middleRing" | "ringPinky";
+  min?: number; // degrees
+  max?: number;
+};
+
+export type OrientationSpec = {
+  pointing?: ScreenDirection[]; // wrist -> middle knuckle direction on screen
+  facing?: PalmFacing[];
+};
+
+// Where the hand is made, relative to the face and body (needs body tracking): `landmark` has to be nearer
+// to one of the `near` places than to any other, and within `distance`. Motion signs: where the movement starts.
+export type LocationSpec = {
+  near: BodyLocation | BodyLocation[]; // any of
+  landmark?: LandmarkRef; // defaults to the middle knuckle (the palm)
+  distance?: number; // palm lengths, defaults to the engine's location distance
+};
+
+export type HandshapeSpec = {
+  fingers?: Partial<Record<Exclude<FingerName, "thumb">, FingerSpec | FingerSpec[]>>; // any of
+  thumb?: FingerSpec | FingerSpec[]; // any of
+  thumbPosition?: ThumbPosition;
+  contacts?: ContactSpec[];
+  spread?: SpreadSpec[];
+  crossed?: boolean; // index crossed over the middle finger (R)
+  fingerPointing?: Partial<Record<FingerName, ScreenDirection[]>>;
+  orientation?: OrientationSpec;
+  location?: LocationSpec;
+};
+
+// Movement of one landmark, as screen displacement waypoints in palm lengths from where it started
+// (x to the right of the image, y down). `mirror` also accepts the path flipped on that axis.
+export type PathMotion = {
+  kind: "path";
+  landmark: LandmarkRef;
+  path: [number, number][];
+  tolerance?: number; // mean distance from the path allowed, palm lengths
+  mirror?: "x" | "y" | "xy";
+  // x points outwards, to the signing hand's side of the body, instead of to the right of the image: the same
+  // movement for either hand, however the camera is shown
+  outward?: boolean;
+  duration?: number; // ms of history the movement spans
+};
+
+// Palm turning over (H)
+export type TwistMotion = {
+  kind: "twist";
+  minDegrees: number;
+  duration?: number;
+};
+
+// Quick back-and-forth shaking of the wrist (Ç)
+export type TremorMotion = {
+  kind: "tremor";
+  axis: "x" | "y";
+  minReversals: number;
+  minPath: number; // palm lengths travelled
+  duration?: number;
+};
+
+export type MotionSpec = PathMotion | TwistMotion | TremorMotion;
+
+export type SignDefinition = HandshapeSpec & {
+  id: string; // unique within the pack, e.g. "letter-a"
+  type: SignType;
+  value: string | number;
+  description?: string;
+  motion?: MotionSpec; // handshape must hold at the start, middle and end of the movement
+  nonDominant?: HandshapeSpec; // two-handed signs: shape of the other hand
+  between?: ContactSpec[]; // two-handed signs: a = signing hand, b = other hand
+  parallel?: { from: LandmarkRef; to: LandmarkRef; maxAngle: number }; // same segment on both hands
+  priority: number; // higher wins when several signs match
+  confidence: number; // 0..1
+};
+
+export type SignPack = {
+  id: string;
+  name: string;
+  version: number;
+  signs: SignDefinition[];
+};
+
+// --- Landmark names ---
+const JOINT_NAMES: Record<FingerName, [string, string, string, string]> = {
+  thumb: ["Cmc", "Mcp", "Ip", "Tip"],
+  index: ["Mcp", "Pip", "Dip", "Tip"],
+  middle: ["Mcp", "Pip", "Dip", "Tip"],
+  ring: ["Mcp", "Pip", "Dip", "Tip"],
+  pinky: ["Mcp", "Pip", "Dip", "Tip"],
+};
+
+export const LANDMARK_NAMES: Record<string, number> = {wrist: 0};
+(Object.keys(JOINT_NAMES) as FingerName[]).forEach((finger, f) => {
+  JOINT_NAMES[finger].forEach((joint, j) => {
+    LANDMARK_NAMES[finger + joint] = 1 + f * 4 + j;
+  });
+});
+
+export function landmarkIndex(ref: LandmarkRef): number {
+  const index = typeof ref === "number" ? ref : LANDMARK_NAMES[ref];
+  if (index === undefined || !Number.isInteger(index) || index < 0 || index > 20) {
+    throw new Error(`Unknown landmark "${ref}"`);
+  }
+  return index;
+}
+
+// --- Validation for packs loaded at runtime ---
+const SIGN_TYPES: SignType[] = ["LETTER", "NUMBER", "WORD", "COMMAND"];
+const FINGER_SPECS: string[] = ["extended", "bent", "curled", "hooked", "closed"];
+const THUMB_POSITIONS: string[] = ["out", "in", "beside", "across", "parallel"];
+const DIRECTIONS: string[] = ["up", "down", "side", "forward"];
+const FACINGS: string[] = ["camera", "away", "up", "down", "side"];
+const SPREADS: string[] = ["thumbIndex", "indexMiddle", "middleRing", "ringPinky"];
+const LOCATIONS: string[] = [...BODY_ANCHORS, "neutral"];
+
+const asList = <T, >(value: T | T[]): T[] => (Array.isArray(value) ? value : [value]);
+
+function checkOneOf(value: unknown, allowed: string[], what: string) {
+  for (const item of asList(value)) {
+    if (typeof item !== "string" || !allowed.includes(item)) {
+      throw new Error(`invalid ${what} ${JSON.stringify(item)}`);
+    }
+  }
+}
+
+function checkContacts(contacts: unknown) {
+  if (!Array.isArray(contacts)) throw new Error("contacts must be a list");
+  for (const contact of contacts as ContactSpec[]) {
+    landmarkIndex(contact.a);
+    landmarkIndex(contact.b);
+    if (typeof contact.touching !== "boolean") throw new Error("contact needs `touching`");
+  }
+}
+
+function checkHandshape(shape: HandshapeSpec) {
+  for (const [finger, spec] of Object.entries(shape.fingers ?? {})) {
+    checkOneOf(finger, ["index", "middle", "ring", "pinky"], "finger");
+    checkOneOf(spec, FINGER_SPECS, `${finger} state`);
+  }
+  if (shape.thumb !== undefined) checkOneOf(shape.thumb, FINGER_SPECS, "thumb state");
+  if (shape.thumbPosition !== undefined) checkOneOf(shape.thumbPosition, THUMB_POSITIONS, "thumb position");
+  if (shape.contacts !== undefined) checkContacts(shape.contacts);
+  for (const spread of shape.spread ?? []) checkOneOf(spread.between, SPREADS, "spread");
+  for (const directions of Object.values(shape.fingerPointing ?? {})) checkOneOf(directions, DIRECTIONS, "direction");
+  if (shape.orientation?.pointing) checkOneOf(shape.orientation.pointing, DIRECTIONS, "direction");
+  if (shape.orientation?.facing) checkOneOf(shape.orientation.facing, FACINGS, "facing");
+  if (shape.location) {
+    checkOneOf(shape.location.near, LOCATIONS, "location");
+    if (shape.location.landmark !== undefined) landmarkIndex(shape.location.landmark);
+    if (shape.location.distance !== undefined && !(shape.location.distance > 0)) throw new Error("location distance must be positive");
+  }
+}
+
+function checkMotion(motion: MotionSpec) {
+  if (motion.duration !== undefined && !(motion.duration > 0)) throw new Error("motion duration must be positive");
+  switch (motion.kind) {
+    case "path":
+      landmarkIndex(motion.landmark);
+      if (!Array.isArray(motion.path) || motion.path.length < 2) throw new Error("motion path needs 2+ points");
+      if (motion.outward !== undefined && typeof motion.outward !== "boolean") throw new Error("`outward` must be true or false");
+      break;
+    case "twist":
+      if (typeof motion.minDegrees !== "number") throw new Error("twist needs `minDegrees`");
+      break;
+    case "tremor":
+      checkOneOf(motion.axis, ["x", "y"], "tremor axis");
+      break;
+    default:
+      throw new Error(`unknown motion kind ${JSON.stringify((motion as { kind: unknown }).kind)}`);
+  }
+}
+
+// Validates untrusted JSON (e.g. a pack file picked by the user) and returns it as a SignPack
+export function parseSignPack(json: unknown): SignPack {
+  const pack = json as SignPack;
+  if (!pack || typeof pack.id !== "string" || !Array.isArray(pack.signs)) {
+    throw new Error("Sign pack needs an `id` and a `signs` list");
+  }
+
+  const ids = new Set<string>();
+  for (const sign of pack.signs) {
+    try {
+      if (typeof sign.id !== "string" || ids.has(sign.id)) throw new Error("missing or duplicate id");
+      ids.add(sign.id);
+      checkOneOf(sign.type, SIGN_TYPES, "type");
+      if (typeof sign.value !== "string" && typeof sign.value !== "number") throw new Error("missing value");
+      if (typeof sign.priority !== "number") throw new Error("missing priority");
+      if (typeof sign.confidence !== "number" || sign.confidence < 0 || sign.confidence > 1) {
+        throw new Error("confidence must be between 0 and 1");
+      }
+      checkHandshape(sign);
+      if (sign.nonDominant) checkHandshape(sign.nonDominant);
+      if (sign.between) checkContacts(sign.between);
+      if (sign.motion) checkMotion(sign.motion);
+    } catch (e) {
+      throw new Error(`Sign pack "${pack.id}", sign "${sign?.id}": ${(e as Error).message}`);
+    }
+  }
+
+  return {...pack, name: pack.name ?? pack.id, version: pack.version ?? 1};
+}
@@ -0,0 +1,398 @@
+import type {Category, NormalizedLandmark} from "@mediapipe/tasks-vision";
+import {
+  angleBetween,
+  DEFAULT_THRESHOLDS,
+  extractHandFeatures,
+  type FeatureThresholds,
+  type FingerFeatures,
+  type HandFeatures,
+  isThumbAlongIndex,
+  isTouching,
+  landmarkDistance,
+  LONG_FINGERS
+} from "./hand-features";
+import type {GestureToken} from "./libras-logic";
+import {
+  type ContactSpec,
+  type FingerSpec,
+  type HandshapeSpec,
+  landmarkIndex,
+  type LocationSpec,
+  type MotionSpec,
+  parseSignPack,
+  type SignDefinition,
+  type SignPack,
+  type ThumbPosition
+} from "./sign-definitions";
+import {type HistoryFrame, signerSide} from "./hand-tracker";
+import {type BodyAnchors, type BodyLocation, nearestAnchor} from "./body-anchors";
+import {motionWindow, pathDistance, sampleByTime} from "./motion-templates";
+import {LIBRAS_LETTERS} from "./signs/libras-letters";
+import {LIBRAS_NUMBERS} from "./signs/libras-numbers";
+import {LIBRAS_WORDS} from "./signs/libras-words";
+import {LIBRAS_COMMANDS} from "./signs/libras-commands";
+
+export type HandInput = {
+  landmarks: NormalizedLandmark[];
+  handedness: Category;
+  history?: HistoryFrame[]; // oldest first, ending with `landmarks`; needed for motion signs
+  thresholds?: FeatureThresholds; // signer's calibration, defaults to DEFAULT_THRESHOLDS
+  body?: BodyAnchors | null; // face and body this frame, for signs with a location
+};
+
+// --- Registry ---
+// Built-in packs are always loaded; extra packs can be added (or replaced by id) at runtime
+const packs = new Map<string, SignPack>();
+[LIBRAS_LETTERS, LIBRAS_NUMBERS, LIBRAS_WORDS, LIBRAS_COMMANDS].forEach((pack) => packs.set(pack.id, pack));
+
+export function registerSignPack(pack: SignPack) {
+  packs.set(pack.id, pack);
+}
+
+export function unregisterSignPack(id: string) {
+  packs.delete(id);
+}
+
+export function getSignPacks(): SignPack[] {
+  return [...packs.values()];
+}
+
+export function getSigns(filter: (sign: SignDefinition) => boolean = () => true): SignDefinition[] {
+  return getSignPacks().flatMap((pack) => pack.signs.filter(filter));
+}
+
+// Loads a JSON sign pack from a URL or a user-picked file, validates and registers it
+export async function loadSignPack(source: string | Blob): Promise<SignPack> {
+  const text = typeof source === "string" ? await (await fetch(source)).text() : await source.text();
+  const pack = parseSignPack(JSON.parse(text));
+  registerSignPack(pack);
+  return pack;
+}
+
+// --- Evaluation ---
+
+// Feature extraction is the expensive part; the same frame is looked at by many signs
+const featureCache = new WeakMap<NormalizedLandmark[], { label: string; features: HandFeatures }>();
+
+export function featuresOf(
+  landmarks: NormalizedLandmark[],
+  handedness: Category,
+  thresholds: FeatureThresholds = DEFAULT_THRESHOLDS
+): HandFeatures {
+  // Keyed on the label the palm frame is built from (see extractHandFeatures)
+  const cached = featureCache.get(landmarks);
+  if (cached && cached.label === handedness.displayName && cached.features.thresholds === thresholds) {
+    return cached.features;
+  }
+  const features = extractHandFeatures(landmarks, handedness, thresholds);
+  featureCache.set(landmarks, {label: handedness.displayName, features});
+  return features;
+}
+
+const asList = <T, >(value: T | T[]): T[] => (Array.isArray(value) ? value : [value]);
+
+function matchFinger(finger: FingerFeatures, spec: FingerSpec): boolean {
+  switch (spec) {
+    case "hooked":
+      return finger.flexion[0] < 45 && finger.flexion[1] > 60;
+    case "closed":
+      return finger.state !== "extended";
+    default:
+      return finger.state === spec;
+  }
+}
+
+function matchThumbPosition(features: HandFeatures, position: ThumbPosition): boolean {
+  const tip = features.points[4];
+  const indexMcp = features.points[5];
+  switch (position) {
+    case "out":
+      return features.fingers.thumb.extended;
+    case "in":
+      return !features.fingers.thumb.extended;
+    case "beside":
+      return tip.y > indexMcp.y && tip.x > indexMcp.x - 0.1 && tip.x - indexMcp.x < 0.3;
+    case "across":
+      return tip.x < indexMcp.x - 0.1 && Math.abs(tip.y - indexMcp.y) < 0.4;
+    case "parallel":
+      return isThumbAlongIndex(features);
+  }
+}
+
+const contactDistance = (features: HandFeatures, contact: ContactSpec) =>
+  landmarkDistance(features, landmarkIndex(contact.a), landmarkIndex(contact.b));
+
+const matchContact = (features: HandFeatures, contact: ContactSpec) =>
+  isTouching(features, landmarkIndex(contact.a), landmarkIndex(contact.b), contact.threshold) === contact.touching;
+
+// Why a check failed, for diagnostics; built only when failures are being collected
+type Failures = { push: (reason: string) => void } | undefined;
+
+// Without `failures` stops at the first check that fails; with it, runs every check and collects the reasons
+function checkHandshape(shape: HandshapeSpec, features: HandFeatures, failures?: Failures): boolean {
+  const {fingers} = features;
+  let matched = true;
+  // Returns whether to stop checking
+  const fail = (reason: () => string) => {
+    matched = false;
+    failures?.push(reason());
+    return !failures;
+  };
+
+  for (const name of LONG_FINGERS) {
+    const spec = shape.fingers?.[name as keyof HandshapeSpec["fingers"]];
+    if (spec && !asList(spec).some((s) => matchFinger(fingers[name], s)) &&
+      fail(() => `${name} ${fingers[name].state} (wants ${asList(spec).join("/")})`)) return false;
+  }
+  if (shape.thumb && !asList(shape.thumb).some((s) => matchFinger(fingers.thumb, s)) &&
+    fail(() => `thumb ${fingers.thumb.state} (wants ${asList(shape.thumb!).join("/")})`)) return false;
+  if (shape.thumbPosition && !matchThumbPosition(features, shape.thumbPosition) &&
+    fail(() => `thumb not ${shape.thumbPosition}`)) return false;
+
+  for (const contact of shape.contacts ?? []) {
+    if (!matchContact(features, contact) && fail(() => {
+      const threshold = contact.threshold ?? features.thresholds.contactDistance;
+      return `${contact.a}–${contact.b} ${contactDistance(features, contact).toFixed(2)} ` +
+        `(wants ${contact.touching ? "<" : "≥"} ${threshold.toFixed(2)})`;
+    })) return false;
+  }
+
+  for (const {between, min, max} of shape.spread ?? []) {
+    const angle = features.spread[between];
+    if (((min !== undefined && angle < min) || (max !== undefined && angle > max)) &&
+      fail(() => `${between} spread ${angle.toFixed(0)}° (wants ${min ?? ""}..${max ?? ""})`)) return false;
+  }
+
+  if (shape.crossed !== undefined) {
+    const crossed = features.points[8].x < features.points[12].x;
+    if (crossed !== shape.crossed && fail(() => `index and middle ${crossed ? "" : "not "}crossed`)) return false;
+  }
+
+  for (const [name, directions] of Object.entries(shape.fingerPointing ?? {})) {
+    const pointing = fingers[name as keyof typeof fingers].pointing;
+    if (!directions.includes(pointing) && fail(() => `${name} points ${pointing} (wants ${directions.join("/")})`)) return false;
+  }
+
+  const {pointing, facing} = shape.orientation ?? {};
+  const orientation = features.orientation;
+  if (pointing && !pointing.includes(orientation.pointing) &&
+    fail(() => `hand points ${orientation.pointing} (wants ${pointing.join("/")})`)) return false;
+  if (facing && !facing.includes(orientation.facing) &&
+    fail(() => `palm faces ${orientation.facing} (wants ${facing.join("/")})`)) return false;
+
+  return matched;
+}
+
+export function matchHandshape(shape: HandshapeSpec, features: HandFeatures): boolean {
+  return checkHandshape(shape, features);
+}
+
+export const DEFAULT_LOCATION_DISTANCE = 1; // palm lengths
+const DEFAULT_LOCATION_LANDMARK = "middleMcp";
+
+// Where a landmark of the hand is: the nearest body anchor, or neutral space when none is within `maxDistance`
+// palm lengths. Null when the body isn't in view.
+export function locateHand(
+  hand: HandInput,
+  landmark: LocationSpec["landmark"] = DEFAULT_LOCATION_LANDMARK,
+  maxDistance = DEFAULT_LOCATION_DISTANCE
+): { location: BodyLocation; distance: number } | null {
+  if (!hand.body) return null;
+  const {x, y} = hand.landmarks[landmarkIndex(landmark)];
+  const nearest = nearestAnchor(hand.body, signerSide(hand.handedness), [x, y]);
+  if (!nearest) return null;
+  const distance = nearest.distance / featuresOf(hand.landmarks, hand.handedness, hand.thresholds).scale;
+  return {location: distance <= maxDistance ? nearest.anchor : "neutral", distance};
+}
+
+function checkLocation(location: LocationSpec | undefined, hand: HandInput, failures?: Failures): boolean {
+  if (!location) return true;
+  const near = asList(location.near);
+  const at = locateHand(hand, location.landmark, location.distance);
+  if (!at) {
+    failures?.push("needs the face and body in view");
+    return false;
+  }
+  if (near.includes(at.location)) return true;
+  failures?.push(`${location.landmark ?? DEFAULT_LOCATION_LANDMARK} at ${at.location === "neutral" ? "no body part" : at.location} ` +
+    `${at.distance.toFixed(2)} (wants ${near.join("/")})`);
+  return false;
+}
+
+export const DEFAULT_MOTION_DURATION = 600; // ms
+const DEFAULT_PATH_TOLERANCE = 0.3;
+const TREMOR_SAMPLES = 24;
+
+// Returns a match quality 0..1, or null when the movement (or the handshape during it) doesn't match
+function matchMotion(sign: SignDefinition, motion: MotionSpec, hand: HandInput, failures?: Failures): number | null {
+  const duration = motion.duration ?? DEFAULT_MOTION_DURATION;
+  const frames = motionWindow(hand.history ?? [], duration);
+  if (!frames) {
+    failures?.push(`less than ${duration}ms of movement seen`);
+    return null;
+  }
+
+  // The handshape has to be held through the movement
+  const sampled = [frames[0], frames[Math.floor(frames.length / 2)], frames[frames.length - 1]].map((frame) =>
+    featuresOf(frame.landmarks, hand.handedness, hand.thresholds)
+  );
+  const unheld = sampled.findIndex((features) => !matchHandshape(sign, features));
+  if (unheld >= 0) {
+    if (failures) checkHandshape(sign, sampled[unheld], {push: (reason) => failures.push(`during the movement: ${reason}`)});
+    return null;
+  }
+
+  if (!checkLocation(sign.location, {...hand, landmarks: frames[0].landmarks},
+    failures && {push: (reason) => failures.push(`at the start: ${reason}`)})) return null;
+
+  const [first, , last] = sampled;
+  const palm = last.scale;
+
+  switch (motion.kind) {
+    case "path": {
+      const tolerance = motion.tolerance ?? DEFAULT_PATH_TOLERANCE;
+      const distance = pathDistance(motion, frames, palm, signerSide(hand.handedness));
+      if (distance <= tolerance) return 1 - distance / tolerance;
+      failures?.push(Number.isFinite(distance) ? `path off by ${distance.toFixed(2)} (wants ≤ ${tolerance})` : "moved too little");
+      return null;
+    }
+    case "twist": {
+      const twist = angleBetween(first.orientation.normal, last.orientation.normal);
+      if (twist >= motion.minDegrees) return Math.min(1, twist / (motion.minDegrees * 2));
+      failures?.push(`twist ${twist.toFixed(0)}° (wants ≥ ${motion.minDegrees}°)`);
+      return null;
+    }
+    case "tremor": {
+      // Sampled by time, so the count of direction changes doesn't depend on the frame rate
+      const positions = sampleByTime(frames, 0, TREMOR_SAMPLES).map((p) => p[motion.axis] / palm);
+      let reversals = 0;
+      let path = 0;
+      let previous = 0;
+      for (let i = 1; i < positions.length; i++) {
+        const step = positions[i] - positions[i - 1];
+        if (step * previous < 0) reversals++;
+        if (step !== 0) previous = step;
+        path += Math.abs(step);
+      }
+      if (reversals >= motion.minReversals && path >= motion.minPath) return Math.min(1, path / (motion.minPath * 2));
+      failures?.push(`tremor ${reversals} reversals over ${path.toFixed(2)} (wants ${motion.minReversals} over ${motion.minPath})`);
+      return null;
+    }
+  }
+}
+
+// Checks the cross-hand constraints of a two-handed sign
+function matchBetween(sign: SignDefinition, dominant: HandInput, other: HandInput): boolean {
+  const dominantFeatures = featuresOf(dominant.landmarks, dominant.handedness, dominant.thresholds);
+  const palm = (dominantFeatures.scale + featuresOf(other.landmarks, other.handedness, other.thresholds).scale) / 2;
+
+  for (const contact of sign.between ?? []) {
+    const a = dominant.landmarks[landmarkIndex(contact.a)];
+    const b = other.landmarks[landmarkIndex(contact.b)];
+    const distance = Math.hypot(a.x - b.x, a.y - b.y, a.z - b.z) / palm;
+    if ((distance < (contact.threshold ?? dominantFeatures.thresholds.contactDistance)) !== contact.touching) return false;
+  }
+
+  if (sign.parallel) {
+    const from = landmarkIndex(sign.parallel.from);
+    const to = landmarkIndex(sign.parallel.to);
+    const segment = (lm: NormalizedLandmark[]) => ({x: lm[to].x - lm[from].x, y: lm[to].y - lm[from].y, z: 0});
+    if (angleBetween(segment(dominant.landmarks), segment(other.landmarks)) > sign.parallel.maxAngle) return false;
+  }
+  return true;
+}
+
+function checkSign(sign: SignDefinition, dominant: HandInput, other: HandInput | null, failures?: Failures): number | null {
+  if (sign.nonDominant) {
+    if (!other) {
+      failures?.push("needs the other hand in view");
+      return null;
+    }
+    const otherFailures = failures && {push: (reason: string) => failures.push(`other hand: ${reason}`)};
+    if (!checkHandshape(sign.nonDominant, featuresOf(other.landmarks, other.handedness, other.thresholds), otherFailures) ||
+      !checkLocation(sign.nonDominant.location, other, otherFailures)) {
+      return null;
+    }
+    if (!matchBetween(sign, dominant, other)) {
+      failures?.push("hands not in position");
+      return null;
+    }
+  }
+
+  if (sign.motion) {
+    const quality = matchMotion(sign, sign.motion, dominant, failures);
+    return quality === null ? null : sign.confidence * (0.8 + 0.2 * quality);
+  }
+
+  const features = featuresOf(dominant.landmarks, dominant.handedness, dominant.thresholds);
+  const shaped = checkHandshape(sign, features, failures);
+  if (!shaped && !failures) return null;
+  return checkLocation(sign.location, dominant, failures) && shaped ? sign.confidence : null;
+}
+
+// Confidence of one sign for the given hands, or null when it doesn't match
+export function matchSign(sign: SignDefinition, dominant: HandInput, other: HandInput | null = null): number | null {
+  return checkSign(sign, dominant, other);
+}
+
+// The checks a sign fails for the given hands (empty when it matches), e.g. "index bent (wants extended)"
+export function explainSign(sign: SignDefinition, dominant: HandInput, other: HandInput | null = null): string[] {
+  const failures: string[] = [];
+  checkSign(sign, dominant, other, failures);
+  return failures;
+}
+
+export type Candidate = {
+  token: GestureToken;
+  priority: number;
+  signId: string;
+};
+
+const tokenKey = (token: GestureToken) => `${token.type}:${token.value}`;
+
+// Every sign that matches, best first: highest priority, then highest confidence.
+// Signs giving the same token (G held sideways or upright) appear once, with their best match.
+export function rankSigns(signs: SignDefinition[], dominant: HandInput, other: HandInput | null = null): Candidate[] {
+  const candidates: Candidate[] = [];
+  for (const sign of signs) {
+    const confidence = matchSign(sign, dominant, other);
+    if (confidence === null) continue;
+    const token: GestureToken = sign.motion
+      ? {type: sign.type, value: sign.value, confidence, motion: true}
+      : {type: sign.type, value: sign.value, confidence};
+    candidates.push({token, priority: sign.priority, signId: sign.id});
+  }
+
+  candidates.sort((a, b) => b.priority - a.priority || b.token.confidence - a.token.confidence);
+  const seen = new Set<string>();
+  return candidates.filter(({token}) => {
+    const key = tokenKey(token);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Evaluates a set of signs and returns the winner: highest priority, then highest confidence
+export function evaluateSigns(
+  signs: SignDefinition[],
+  dominant: HandInput,
+  other: HandInput | null = null
+): GestureToken | null {
+  return rankSigns(signs, dominant, other)[0]?.token ?? null;
+}
+
+export const AMBIGUITY_MARGIN = 0.1;
+
+// Runner-ups that genuinely compete with the top candidate: a different kind of sign (B vs 4, O vs 0)
+// or a sign of equal priority (U vs V) with a confidence within `margin`. Lower-priority signs of the
+// same kind are the ones a more specific sign refines (O under P), not rivals.
+export function closeAlternatives(candidates: Candidate[], margin = AMBIGUITY_MARGIN): GestureToken[] {
+  const [top, ...rest] = candidates;
+  if (!top) return [];
+  return rest
+    .filter(({token, priority}) =>
+      (token.type !== top.token.type || priority === top.priority) &&
+      token.confidence >= top.token.confidence - margin)
+    .map(({token}) => token);
+}
@@ -0,0 +1,172 @@
+import {useEffect, useMemo, useRef, useState} from "react";
+import {DrawingUtils, HandLandmarker, type NormalizedLandmark} from "@mediapipe/tasks-vision";
+import type {DominantHand} from "./hand-tracker";
+import {buildTimeline, frameAt, PLAYER_BODY, type SignStep} from "./text-to-libras";
+
+const SPEEDS = {min: 0.25, max: 2, step: 0.25};
+const MAX_VIEW_ANGLE = 60; // degrees the hands can be turned to look at them from the side
+const CANVAS_SIZE = 480;
+
+type SignPlayerProps = {
+  steps: SignStep[];
+  dominantHand: DominantHand;
+  mirror: boolean; // drawn like the mirrored camera view
+};
+
+// Turns the hands about the vertical axis through their middle, to show their depth
+function turnView(hands: NormalizedLandmark[][], degrees: number): NormalizedLandmark[][] {
+  if (degrees === 0) return hands;
+  const all = hands.flat();
+  const cx = all.reduce((sum, l) => sum + l.x, 0) / all.length;
+  const cos = Math.cos((degrees * Math.PI) / 180);
+  const sin = Math.sin((degrees * Math.PI) / 180);
+  return hands.map((landmarks) => landmarks.map((l) => ({...l, x: cx + (l.x - cx) * cos - l.z * sin, z: (l.x - cx) * sin + l.z * cos})));
+}
+
+// Outline of the head and shoulders the hands are placed against, for signs made at a place on the body
+function drawBody(ctx: CanvasRenderingContext2D) {
+  const {forehead, chin, neck, shoulder: right} = PLAYER_BODY.right;
+  const left = PLAYER_BODY.left.shoulder!;
+  const at = ([x, y]: [number, number]): [number, number] => [x * CANVAS_SIZE, y * CANVAS_SIZE];
+  const [, top] = at(forehead!);
+  const [cx, bottom] = at(chin!);
+  ctx.save();
+  ctx.strokeStyle = "rgba(255,255,255,0.25)";
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  const radius = (bottom - top) * 0.65; // the forehead anchor is mid-forehead, the chin at the bottom of the head
+  ctx.ellipse(cx, bottom - radius, radius * 0.75, radius, 0, 0, 2 * Math.PI);
+  ctx.moveTo(...at(right!));
+  ctx.quadraticCurveTo(...at(neck!), ...at(left));
+  ctx.stroke();
+  ctx.restore();
+}
+
+// Plays signs as animated hands, one after another, with the sign being shown highlighted underneath
+export function SignPlayer({steps, dominantHand, mirror}: SignPlayerProps) {
+  const timeline = useMemo(() => buildTimeline(steps), [steps]);
+  const [playing, setPlaying] = useState(true);
+  const [speed, setSpeed] = useState(1);
+  const [viewAngle, setViewAngle] = useState(0);
+  const [current, setCurrent] = useState<number | null>(null); // step being shown
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const timeRef = useRef(0); // ms into the timeline, at normal speed
+  // Read by the animation loop, which is only restarted when playback starts or stops
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+  const viewRef = useRef(viewAngle);
+  viewRef.current = viewAngle;
+
+  function draw() {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+    const frame = frameAt(timeline, timeRef.current, dominantHand);
+    setCurrent(frame.item?.index ?? null);
+
+    ctx.clearRect(0, 0, CANVAS_SIZE, CANVAS_SIZE);
+    drawBody(ctx);
+    const drawingUtils = new DrawingUtils(ctx);
+    const turned = turnView(frame.hands.map((hand) => hand.landmarks), viewRef.current);
+    frame.hands.forEach(({dominant}, i) => {
+      // Nearer joints are drawn bigger
+      drawingUtils.drawConnectors(turned[i], HandLandmarker.HAND_CONNECTIONS,
+        {color: dominant ? "rgba(0,255,0,0.7)" : "rgba(0,128,255,0.7)", lineWidth: 4});
+      drawingUtils.drawLandmarks(turned[i],
+        {color: "#FF0000", lineWidth: 1, radius: (data) => DrawingUtils.lerp(data.from?.z ?? 0, -0.2, 0.2, 7, 2)});
+    });
+  }
+
+  // New text plays from the start
+  useEffect(() => {
+    timeRef.current = 0;
+    setPlaying(true);
+    draw();
+  }, [timeline, dominantHand]);
+
+  useEffect(() => {
+    if (!playing) {
+      draw();
+      return;
+    }
+    let last = performance.now();
+    let request = requestAnimationFrame(function tick(now) {
+      timeRef.current += (now - last) * speedRef.current;
+      last = now;
+      if (timeRef.current >= timeline.duration) {
+        timeRef.current = timeline.duration;
+        setPlaying(false);
+      }
+      draw();
+      request = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(request);
+  }, [playing, timeline, dominantHand]);
+
+  useEffect(() => {
+    if (!playing) draw();
+  }, [viewAngle, mirror]);
+
+  function playPause() {
+    if (!playing && timeRef.current >= timeline.duration) timeRef.current = 0;
+    setPlaying((p) => !p);
+  }
+
+  function jumpTo(index: number) {
+    timeRef.current = timeline.items[index].start;
+    draw();
+  }
+
+  const shown = current === null ? null : steps[current];
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      <div className="relative w-full max-w-[480px] aspect-square bg-black rounded-2xl overflow-hidden shadow-2xl border-4 border-white">
+        <canvas ref={canvasRef} width={CANVAS_SIZE} height={CANVAS_SIZE}
+                className={`absolute inset-0 w-full h-full ${mirror ? "transform -scale-x-100" : ""}`}/>
+        {shown?.sign && (
+          <div className="absolute top-3 left-3 bg-black/60 rounded-lg px-3 py-1 text-white">
+            <span className="text-3xl font-bold">{shown.text}</span>
+            {shown.double && <span className="ml-2 text-xs text-white/70">again</span>}
+          </div>
+        )}
+        {steps.length === 0 && (
+          <p className="absolute inset-0 flex items-center justify-center text-white/50">Type something to sign it</p>
+        )}
+      </div>
+      {shown?.sign?.description && <p className="text-sm text-gray-500 -mt-2">{shown.sign.description}</p>}
+
+      <div className="flex flex-wrap gap-x-6 gap-y-2 items-center justify-center text-sm">
+        <button onClick={playPause} disabled={steps.length === 0}
+                className="bg-[#007f8b] text-white px-4 py-2 rounded font-bold disabled:opacity-40">
+          {playing ? "Pause" : timeRef.current >= timeline.duration ? "Replay" : "Play"}
+        </button>
+        <label className="flex items-center gap-2 text-gray-600">
+          Speed
+          <input type="range" min={SPEEDS.min} max={SPEEDS.max} step={SPEEDS.step} value={speed}
+                 onChange={(e) => setSpeed(Number(e.target.value))} className="accent-[#007f8b]"/>
+          <span className="w-10 font-mono text-xs text-gray-500">{speed}×</span>
+        </label>
+        <label className="flex items-center gap-2 text-gray-600" title="Turn the hands to see them from the side">
+          View
+          <input type="range" min={-MAX_VIEW_ANGLE} max={MAX_VIEW_ANGLE} step={5} value={viewAngle}
+                 onChange={(e) => setViewAngle(Number(e.target.value))} className="accent-[#007f8b]"/>
+          <span className="w-10 font-mono text-xs text-gray-500">{viewAngle}°</span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-1 justify-center max-w-[640px]">
+        {steps.map((step, i) => step.sign ? (
+          <button key={i} onClick={() => jumpTo(i)} title={step.sign.description}
+                  className={`px-2 py-1 rounded font-mono text-sm ${
+                    i === current ? "bg-[#007f8b] text-white" : "bg-gray-100 hover:bg-gray-200"
+                  }`}>
+            {step.text}
+          </button>
+        ) : (
+          <span key={i} className="w-3"/>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+import type {PracticeSign} from "./practice";
+
+// How to make a sign: its picture from the reference charts in public/, and its description.
+// alfabeto-hand.png is a 7 × 4 grid of the manual alphabet in this order; each letter is shown by cropping
+// the chart with background-size/position.
+const ALPHABET_CHART = "/alfabeto-hand.png";
+const ALPHABET_ORDER = "ABCDEFGHIJKLMNOPQRSTUVXWYZ";
+const ALPHABET_COLUMNS = 7;
+const ALPHABET_ROWS = 4;
+const NUMBERS_CHART = "/numbers.jpeg";
+
+function LetterPicture({letter}: { letter: string }) {
+  const i = ALPHABET_ORDER.indexOf(letter);
+  if (i < 0) return null; // Ç isn't on the chart
+  const column = i % ALPHABET_COLUMNS;
+  const row = Math.floor(i / ALPHABET_COLUMNS);
+  return (
+    <div role="img" aria-label={`The letter ${letter} in LIBRAS`}
+         className="w-32 h-32 rounded-lg border border-gray-200 bg-white bg-no-repeat shrink-0"
+         style={{
+           backgroundImage: `url(${ALPHABET_CHART})`,
+           backgroundSize: `${ALPHABET_COLUMNS * 100}% ${ALPHABET_ROWS * 100}%`,
+           backgroundPosition: `${(column / (ALPHABET_COLUMNS - 1)) * 100}% ${(row / (ALPHABET_ROWS - 1)) * 100}%`,
+         }}/>
+  );
+}
+
+export function SignReference({sign}: { sign: PracticeSign }) {
+  return (
+    <div className="flex gap-4 items-start">
+      {sign.type === "LETTER" && <LetterPicture letter={String(sign.value)}/>}
+      {sign.type === "NUMBER" && (
+        <a href={NUMBERS_CHART} target="_blank" rel="noreferrer" title="Open the number chart" className="shrink-0">
+          <img src={NUMBERS_CHART} alt="Number chart" className="w-32 h-32 object-contain rounded-lg border border-gray-200 bg-white"/>
+        </a>
+      )}
+      <div className="text-sm text-gray-600">
+        <p>{sign.description ?? "No description for this sign."}</p>
+        {sign.motion && <p className="mt-1 text-gray-400">Made with a movement: it counts when the movement ends.</p>}
+        {sign.twoHanded && <p className="mt-1 text-gray-400">Uses both hands.</p>}
+        {sign.location && (
+          <p className="mt-1 text-gray-400">
+            Made at the {[sign.location.near].flat().map((near) => (near === "neutral" ? "space in front of you" : near)).join(" or ")}: keep your face and shoulders in view.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+import type {SignPack} from "../sign-definitions";
+
+// Control gestures: editing the transcript without reaching for the mouse. They come out of the
+// recognizer as COMMAND tokens. Swipes are confirmed at once, like words; the two-handed ones are held,
+// and outrank the two-handed numbers their handshapes would otherwise spell (55, 7x). The bounce has no
+// handshape of its own: it is short and tightly matched, so a wave (OI) doesn't pass for one.
+// The swipes are outward paths, relative to the signer's own body: they don't change with the signing hand or
+// with the camera preview being mirrored or not.
+export const LIBRAS_COMMANDS: SignPack = {
+  id: "libras-commands",
+  name: "Control gestures",
+  version: 1,
+  signs: [
+    {
+      id: "command-space", type: "COMMAND", value: "SPACE", description: "Flat hand swiped outwards, to the signing hand's side",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+      motion: {kind: "path", landmark: "wrist", path: [[0, 0], [1.5, 0]], outward: true, duration: 500},
+      priority: 30, confidence: 0.85,
+    },
+    {
+      id: "command-backspace", type: "COMMAND", value: "BACKSPACE", description: "Flat hand flicked inwards, across the body",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+      motion: {kind: "path", landmark: "wrist", path: [[0, 0], [-1, 0]], outward: true, duration: 350},
+      priority: 30, confidence: 0.85,
+    },
+    {
+      id: "command-double", type: "COMMAND", value: "DOUBLE", description: "Small bounce while holding a letter: type it again (SS, RR)",
+      motion: {kind: "path", landmark: "wrist", path: [[0, 0], [0, 0.3], [0, 0]], mirror: "y", duration: 350, tolerance: 0.15},
+      priority: 25, confidence: 0.8,
+    },
+    {
+      id: "command-clear", type: "COMMAND", value: "CLEAR", description: "Signing hand wipes down in front of the other open hand",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+      motion: {kind: "path", landmark: "wrist", path: [[0, 0], [0, 1.5]], duration: 600},
+      nonDominant: {fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"}},
+      priority: 90, confidence: 0.85,
+    },
+    {
+      id: "command-undo", type: "COMMAND", value: "UNDO", description: "Both hands open, palms to the camera, held apart",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+      thumbPosition: "out",
+      orientation: {facing: ["camera"]},
+      nonDominant: {
+        fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+        thumbPosition: "out",
+        orientation: {facing: ["camera"]},
+      },
+      between: [{a: "middleTip", b: "middleTip", touching: false, threshold: 1}],
+      priority: 90, confidence: 0.85,
+    },
+    {
+      id: "command-accept", type: "COMMAND", value: "ACCEPT", description: "Thumbs up with the other hand: take the first word suggestion",
+      nonDominant: {
+        fingers: {index: "closed", middle: "closed", ring: "closed", pinky: "closed"},
+        fingerPointing: {thumb: ["up"]},
+      },
+      priority: 90, confidence: 0.85,
+    },
+    {
+      id: "command-mode", type: "COMMAND", value: "MODE", description: "Y with the other hand: next input mode",
+      nonDominant: {
+        fingers: {index: "closed", middle: "closed", ring: "closed", pinky: "extended"},
+        thumbPosition: "out",
+      },
+      priority: 90, confidence: 0.85,
+    },
+  ],
+};
@@ -0,0 +1,211 @@
+import type {SignPack} from "../sign-definitions";
+
+// LIBRAS manual alphabet (A-Z and Ç).
+// Priorities: 45 = letters that refine a shared handshape (G over D and 1, R over U and 2), 30 = letters that
+// refine another letter (P over O, Q over D, M over W, N over U/V, E over X) and motion letters,
+// 20 = regular letters, 10 = low-confidence fallbacks. Numbers sit below them all at 5 (see libras-numbers).
+export const LIBRAS_LETTERS: SignPack = {
+  id: "libras-letters",
+  name: "LIBRAS alphabet",
+  version: 1,
+  signs: [
+    {
+      id: "letter-a", type: "LETTER", value: "A", description: "Fist, thumb upright against the index",
+      fingers: {index: "curled", middle: "curled", ring: "curled", pinky: "curled"},
+      thumbPosition: "beside",
+      priority: 20, confidence: 0.9,
+    },
+    {
+      id: "letter-b", type: "LETTER", value: "B", description: "Flat hand, thumb tucked in",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+      thumbPosition: "in",
+      priority: 20, confidence: 0.9,
+    },
+    {
+      id: "letter-c", type: "LETTER", value: "C", description: "All fingers curved, thumb opposite without touching",
+      fingers: {index: "bent", middle: "bent", ring: "bent", pinky: "bent"},
+      thumb: ["extended", "bent"],
+      contacts: [{a: "thumbTip", b: "indexTip", touching: false}],
+      priority: 20, confidence: 0.7,
+    },
+    {
+      id: "letter-d", type: "LETTER", value: "D", description: "Index up, others curled, forming a circle with thumb",
+      fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"},
+      thumbPosition: "in",
+      priority: 20, confidence: 0.9,
+    },
+    {
+      id: "letter-e", type: "LETTER", value: "E", description: "Fingers hooked at the middle joints (claw), thumb tucked",
+      fingers: {index: "hooked", middle: "hooked", ring: "closed", pinky: "closed"},
+      thumbPosition: "in",
+      priority: 30, confidence: 0.82,
+    },
+    {
+      id: "letter-f", type: "LETTER", value: "F", description: "Index curled touching thumb, 3 fingers up",
+      fingers: {index: "closed", middle: "extended", ring: "extended", pinky: "extended"},
+      contacts: [{a: "thumbTip", b: "indexTip", touching: true}],
+      priority: 20, confidence: 0.88,
+    },
+    {
+      id: "letter-f-loose", type: "LETTER", value: "F", description: "3 fingers up, index folded: default to F",
+      fingers: {index: "closed", middle: "extended", ring: "extended", pinky: "extended"},
+      priority: 10, confidence: 0.7,
+    },
+    {
+      id: "letter-g", type: "LETTER", value: "G", description: "Index pointing sideways with thumb parallel",
+      fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"},
+      thumbPosition: "parallel",
+      orientation: {pointing: ["side"]},
+      priority: 45, confidence: 0.88,
+    },
+    {
+      id: "letter-g-upright", type: "LETTER", value: "G", description: "G handshape held up or forward",
+      fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"},
+      thumbPosition: "parallel",
+      orientation: {pointing: ["up", "forward"]},
+      priority: 45, confidence: 0.75,
+    },
+    {
+      id: "letter-h", type: "LETTER", value: "H", description: "Index and middle extended while the wrist twists",
+      fingers: {index: "extended", middle: "extended", ring: "closed", pinky: "closed"},
+      motion: {kind: "twist", minDegrees: 50},
+      priority: 30, confidence: 0.8,
+    },
+    {
+      id: "letter-i", type: "LETTER", value: "I", description: "Pinky only, thumb tucked in",
+      fingers: {index: "closed", middle: "closed", ring: "closed", pinky: "extended"},
+      thumbPosition: "in",
+      priority: 20, confidence: 0.92,
+    },
+    {
+      id: "letter-j", type: "LETTER", value: "J", description: "I handshape, pinky tip draws down then curves aside",
+      fingers: {index: "closed", middle: "closed", ring: "closed", pinky: "extended"},
+      thumbPosition: "in",
+      motion: {kind: "path", landmark: "pinkyTip", path: [[0, 0], [0, 0.5], [0.4, 0.6]], mirror: "x"},
+      priority: 30, confidence: 0.85,
+    },
+    {
+      id: "letter-k", type: "LETTER", value: "K",
+      description: "Index and middle up, thumb touching the middle finger, hand moving upwards",
+      fingers: {index: "extended", middle: "extended", ring: "closed", pinky: "closed"},
+      contacts: [{a: "thumbTip", b: "middlePip", touching: true, threshold: 0.45}],
+      motion: {kind: "path", landmark: "wrist", path: [[0, 0], [0, -0.7]]},
+      priority: 30, confidence: 0.85,
+    },
+    {
+      id: "letter-l", type: "LETTER", value: "L", description: "Thumb and index at 90 degrees",
+      fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"},
+      thumbPosition: "out",
+      priority: 20, confidence: 0.95,
+    },
+    {
+      id: "letter-m", type: "LETTER", value: "M", description: "Index, middle and ring hanging down over the thumb",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "closed"},
+      orientation: {pointing: ["down"]},
+      priority: 30, confidence: 0.85,
+    },
+    {
+      id: "letter-n", type: "LETTER", value: "N", description: "Index and middle hanging down over the thumb",
+      fingers: {index: "extended", middle: "extended", ring: "closed", pinky: "closed"},
+      orientation: {pointing: ["down"]},
+      priority: 30, confidence: 0.85,
+    },
+    {
+      id: "letter-o", type: "LETTER", value: "O", description: "Fingers rounded, thumb and index tips touching",
+      fingers: {index: ["bent", "extended"], middle: "closed"},
+      contacts: [{a: "thumbTip", b: "indexTip", touching: true}],
+      priority: 20, confidence: 0.88,
+    },
+    {
+      id: "letter-p", type: "LETTER", value: "P", description: "O circle with the hand pointing down",
+      fingers: {index: ["bent", "extended"], middle: "closed"},
+      contacts: [{a: "thumbTip", b: "indexTip", touching: true}],
+      orientation: {pointing: ["down"]},
+      priority: 30, confidence: 0.9,
+    },
+    {
+      id: "letter-q", type: "LETTER", value: "Q", description: "G handshape pointing down",
+      fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"},
+      thumbPosition: "parallel",
+      orientation: {pointing: ["down"]},
+      priority: 45, confidence: 0.85,
+    },
+    {
+      id: "letter-r", type: "LETTER", value: "R", description: "Index and middle crossed",
+      fingers: {index: "extended", middle: "extended", ring: "closed", pinky: "closed"},
+      crossed: true,
+      priority: 45, confidence: 0.85,
+    },
+    {
+      id: "letter-s", type: "LETTER", value: "S", description: "Fist with thumb across the fingers",
+      fingers: {index: "curled", middle: "curled", ring: "curled", pinky: "curled"},
+      thumbPosition: "across",
+      priority: 10, confidence: 0.85,
+    },
+    {
+      id: "letter-t", type: "LETTER", value: "T", description: "Index curled, thumb tip at the index middle joint",
+      fingers: {index: "closed", middle: "extended", ring: "extended", pinky: "extended"},
+      contacts: [{a: "thumbTip", b: "indexPip", touching: true}, {a: "thumbTip", b: "indexTip", touching: false}],
+      priority: 20, confidence: 0.85,
+    },
+    {
+      id: "letter-u", type: "LETTER", value: "U", description: "Index and middle together",
+      fingers: {index: "extended", middle: "extended", ring: "closed", pinky: "closed"},
+      thumbPosition: "in",
+      spread: [{between: "indexMiddle", max: 8}],
+      priority: 20, confidence: 0.88,
+    },
+    {
+      id: "letter-v", type: "LETTER", value: "V", description: "Index and middle spread apart",
+      fingers: {index: "extended", middle: "extended", ring: "closed", pinky: "closed"},
+      thumbPosition: "in",
+      spread: [{between: "indexMiddle", min: 15}],
+      priority: 20, confidence: 0.9,
+    },
+    {
+      id: "letter-v-loose", type: "LETTER", value: "V", description: "Index and middle slightly apart: default to V",
+      fingers: {index: "extended", middle: "extended", ring: "closed", pinky: "closed"},
+      thumbPosition: "in",
+      priority: 10, confidence: 0.75,
+    },
+    {
+      id: "letter-w", type: "LETTER", value: "W", description: "Index, middle and ring up",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "closed"},
+      thumbPosition: "in",
+      priority: 20, confidence: 0.9,
+    },
+    {
+      id: "letter-x", type: "LETTER", value: "X", description: "Index bent forming a hook",
+      fingers: {index: "hooked", middle: "closed", ring: "closed", pinky: "closed"},
+      thumbPosition: "in",
+      priority: 20, confidence: 0.8,
+    },
+    {
+      id: "letter-y", type: "LETTER", value: "Y", description: "Hang loose: thumb and pinky spread far apart",
+      fingers: {index: "closed", middle: "closed", ring: "closed", pinky: "extended"},
+      thumbPosition: "out",
+      contacts: [{a: "thumbTip", b: "pinkyTip", touching: false, threshold: 1.0}],
+      priority: 20, confidence: 0.93,
+    },
+    {
+      id: "letter-y-loose", type: "LETTER", value: "Y", description: "Thumb and pinky out but close together",
+      fingers: {index: "closed", middle: "closed", ring: "closed", pinky: "extended"},
+      thumbPosition: "out",
+      priority: 10, confidence: 0.7,
+    },
+    {
+      id: "letter-z", type: "LETTER", value: "Z", description: "Index finger draws a Z",
+      fingers: {index: "extended"},
+      motion: {kind: "path", landmark: "indexTip", path: [[0, 0], [0.7, 0], [0, 0.7], [0.7, 0.7]], mirror: "x", duration: 600},
+      priority: 30, confidence: 0.85,
+    },
+    {
+      id: "letter-c-cedilla", type: "LETTER", value: "Ç", description: "C handshape with a quick side-to-side tremble",
+      fingers: {index: "bent", middle: "bent", ring: "bent", pinky: "bent"},
+      thumb: ["extended", "bent"],
+      contacts: [{a: "thumbTip", b: "indexTip", touching: false}],
+      motion: {kind: "tremor", axis: "x", minReversals: 2, minPath: 0.4},
+      priority: 30, confidence: 0.8,
+    },
+  ],
+};
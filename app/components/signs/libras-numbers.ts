@@ -0,0 +1,93 @@
+import type {OrientationSpec, SignPack} from "../sign-definitions";
+
+// Numbers are never signed with the hand hanging down; those handshapes are letters (M, N, P, Q)
+const NOT_DOWN: OrientationSpec = {pointing: ["up", "side", "forward"]};
+
+// LIBRAS numbers 0-9 (one hand). Two-handed numbers (10-99) are composed in analyzeTwoHandNumber.
+// Priority 5, below every letter: a handshape that is also a letter (1/D, 2/V, 3/W, 4/B, 0/F, 9/O) reads as the
+// letter in auto mode, with the digit as its alternative; number mode drops the letters.
+export const LIBRAS_NUMBERS: SignPack = {
+  id: "libras-numbers",
+  name: "LIBRAS numbers",
+  version: 1,
+  signs: [
+    {
+      id: "number-0", type: "NUMBER", value: 0, description: "Thumb and index forming a circle, other fingers open",
+      fingers: {index: "bent", middle: "extended", ring: "extended", pinky: "extended"},
+      contacts: [{a: "thumbTip", b: "indexTip", touching: true}],
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.85,
+    },
+    {
+      id: "number-1", type: "NUMBER", value: 1, description: "Only index finger extended",
+      fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"},
+      thumbPosition: "in",
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.95,
+    },
+    {
+      id: "number-2", type: "NUMBER", value: 2, description: "Index and middle fingers extended",
+      fingers: {index: "extended", middle: "extended", ring: "closed", pinky: "closed"},
+      thumbPosition: "in",
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.93,
+    },
+    {
+      id: "number-3", type: "NUMBER", value: 3, description: "Index, middle and ring fingers extended",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "closed"},
+      thumbPosition: "in",
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.92,
+    },
+    {
+      id: "number-3-thumb", type: "NUMBER", value: 3, description: "Alternative 3: thumb, index and middle",
+      fingers: {index: "extended", middle: "extended", ring: "closed", pinky: "closed"},
+      thumbPosition: "out",
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.88,
+    },
+    {
+      id: "number-4", type: "NUMBER", value: 4, description: "All fingers except thumb extended",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+      thumbPosition: "in",
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.93,
+    },
+    {
+      id: "number-5", type: "NUMBER", value: 5, description: "Open hand",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+      thumbPosition: "out",
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.95,
+    },
+    {
+      id: "number-6", type: "NUMBER", value: 6, description: "Thumb touching pinky tip, other fingers closed",
+      fingers: {index: "closed", middle: "closed", ring: "closed"},
+      contacts: [{a: "thumbTip", b: "pinkyTip", touching: true}],
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.85,
+    },
+    {
+      id: "number-7", type: "NUMBER", value: 7, description: "Thumb out pointing up, all fingers curled",
+      fingers: {index: "curled", middle: "curled", ring: "curled", pinky: "curled"},
+      thumbPosition: "out",
+      fingerPointing: {thumb: ["up"]},
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.88,
+    },
+    {
+      id: "number-8", type: "NUMBER", value: 8, description: "Thumb touching the middle fingertip, other fingers open",
+      fingers: {index: "extended", ring: "extended", pinky: "extended"},
+      contacts: [{a: "thumbTip", b: "middleTip", touching: true}],
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.86,
+    },
+    {
+      id: "number-9", type: "NUMBER", value: 9, description: "Thumb and index forming a circle, other fingers curled",
+      fingers: {index: ["bent", "extended"], middle: "curled", ring: "curled", pinky: "curled"},
+      contacts: [{a: "thumbTip", b: "indexTip", touching: true}],
+      orientation: NOT_DOWN,
+      priority: 5, confidence: 0.87,
+    },
+  ],
+};
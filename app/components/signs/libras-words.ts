@@ -0,0 +1,76 @@
+import type {SignPack} from "../sign-definitions";
+
+// LIBRAS words: movement gestures of the signing hand, two-handed signs, and signs made at a place on the
+// body (these need body tracking, and win over the letter or number of the same handshape made there)
+export const LIBRAS_WORDS: SignPack = {
+  id: "libras-words",
+  name: "LIBRAS words",
+  version: 1,
+  signs: [
+    {
+      id: "word-oi", type: "WORD", value: "OI", description: "Wave: wrist goes sideways and back",
+      motion: {kind: "path", landmark: "wrist", path: [[0, 0], [0.6, 0], [0, 0]], mirror: "x"},
+      priority: 20, confidence: 0.8,
+    },
+    {
+      id: "word-sim", type: "WORD", value: "SIM", description: "Thumbs up with a vertical bob",
+      fingers: {index: "closed", middle: "closed", ring: "closed", pinky: "closed"},
+      fingerPointing: {thumb: ["up"]},
+      motion: {kind: "path", landmark: "wrist", path: [[0, 0], [0, 0.8]], mirror: "y"},
+      priority: 20, confidence: 0.8,
+    },
+    {
+      id: "word-nao", type: "WORD", value: "NAO", description: "Index pointing, side-to-side shake",
+      fingers: {index: "extended", middle: "closed"},
+      motion: {kind: "path", landmark: "wrist", path: [[0, 0], [1.3, 0]], mirror: "x", tolerance: 0.4},
+      priority: 20, confidence: 0.8,
+    },
+    {
+      id: "word-casa", type: "WORD", value: "CASA", description: "Both hands flat, fingertips touching like a roof",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+      orientation: {pointing: ["up", "side", "forward"]},
+      nonDominant: {
+        fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+        orientation: {pointing: ["up", "side", "forward"]},
+      },
+      between: [{a: "middleTip", b: "middleTip", touching: true, threshold: 0.5}],
+      priority: 20, confidence: 0.85,
+    },
+    {
+      id: "word-igual", type: "WORD", value: "IGUAL", description: "Both index fingers side by side, pointing the same way",
+      fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"},
+      nonDominant: {fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"}},
+      between: [{a: "indexTip", b: "indexTip", touching: true, threshold: 0.6}],
+      parallel: {from: "indexMcp", to: "indexTip", maxAngle: 25},
+      priority: 20, confidence: 0.82,
+    },
+    {
+      id: "word-eu", type: "WORD", value: "EU", description: "Index pointing at your own chest",
+      fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"},
+      fingerPointing: {index: ["forward", "down"]},
+      location: {near: "chest", landmark: "indexTip", distance: 1.2},
+      priority: 50, confidence: 0.8,
+    },
+    {
+      id: "word-pensar", type: "WORD", value: "PENSAR", description: "Index fingertip against the forehead",
+      fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"},
+      location: {near: "forehead", landmark: "indexTip", distance: 0.6},
+      priority: 50, confidence: 0.8,
+    },
+    {
+      id: "word-silencio", type: "WORD", value: "SILENCIO", description: "Index upright across the lips",
+      fingers: {index: "extended", middle: "closed", ring: "closed", pinky: "closed"},
+      fingerPointing: {index: ["up"]},
+      location: {near: ["mouth", "chin"], landmark: "indexPip", distance: 0.6},
+      priority: 50, confidence: 0.8,
+    },
+    {
+      id: "word-obrigado", type: "WORD", value: "OBRIGADO",
+      description: "Flat hand, fingertips at the forehead, brought down and out",
+      fingers: {index: "extended", middle: "extended", ring: "extended", pinky: "extended"},
+      location: {near: ["forehead", "eyes"], landmark: "middleTip", distance: 0.8},
+      motion: {kind: "path", landmark: "wrist", path: [[0, 0], [0, 1.2]], tolerance: 0.4},
+      priority: 20, confidence: 0.8,
+    },
+  ],
+};
@@ -0,0 +1,220 @@
+import type {NormalizedLandmark} from "@mediapipe/tasks-vision";
+import {type DominantHand, signerSide} from "./hand-tracker";
+import {blendPoses, handednessCategory, type HandPlacement, type HandPose, poseForShape, poseLandmarks, REST_POSE} from "./hand-poses";
+import type {BodyAnchor, BodyAnchors} from "./body-anchors";
+import {resampleByLength} from "./motion-templates";
+import {DEFAULT_MOTION_DURATION, getSigns} from "./sign-engine";
+import {landmarkIndex, type LocationSpec, type MotionSpec, type SignDefinition} from "./sign-definitions";
+
+// Text to LIBRAS: typed Portuguese becomes a sequence of signs (known words like OI, SIM and NÃO as
+// themselves, everything else fingerspelled letter by letter and digit by digit), played back as animated
+// hands posed from each sign's own definition.
+
+export type SignStep = {
+  text: string; // what this step spells: "A", "7", "OI", or " " between words
+  sign: SignDefinition | null; // null: the pause between words
+  double: boolean; // same sign as the step before (SS, RR): bounced, as the writer reads it
+};
+
+// Accents aren't fingerspelled (É is signed as E); Ç has a sign of its own
+const plain = (text: string) => text.normalize("NFD").replace(/[\u0300-\u0326\u0328-\u036f]/g, "").normalize("NFC");
+
+// The definition shown for a token: the one the recognizer trusts most (G over its upright variant, F over loose F)
+function signFor(type: SignDefinition["type"], value: string | number): SignDefinition | null {
+  return getSigns((sign) => sign.type === type && (type === "WORD" ? plain(String(sign.value)) : sign.value) === value)
+    .reduce<SignDefinition | null>((best, sign) => (!best || sign.priority > best.priority ? sign : best), null);
+}
+
+export function textToSigns(text: string): { steps: SignStep[]; skipped: string[] } {
+  const steps: SignStep[] = [];
+  const skipped = new Set<string>();
+  const push = (text: string, sign: SignDefinition | null) => {
+    const previous = steps[steps.length - 1];
+    steps.push({text, sign, double: !!sign && previous?.sign === sign});
+  };
+
+  for (const word of plain(text.toUpperCase()).split(/\s+/)) {
+    const letters = word.replace(/[^\p{L}\p{N}]/gu, "");
+    if (!letters) continue;
+    if (steps.length > 0) push(" ", null);
+    const wordSign = signFor("WORD", letters);
+    if (wordSign) {
+      push(letters, wordSign);
+      continue;
+    }
+    for (const char of letters) {
+      const sign = /\d/.test(char) ? signFor("NUMBER", Number(char)) : signFor("LETTER", char);
+      if (sign) push(char, sign);
+      else skipped.add(char);
+    }
+  }
+  return {steps, skipped: [...skipped]};
+}
+
+// --- Playback ---
+
+// Times at normal speed; the player scales them
+const HOLD_MS = 700; // a handshape is shown this long
+const TRANSITION_MS = 300; // moving from one handshape to the next
+const PAUSE_MS = 500; // between words
+const MOTION_SLOWDOWN = 1.5; // movements are shown slower than they are matched
+
+export type TimelineItem = {
+  index: number; // into the steps
+  step: SignStep;
+  start: number; // ms
+  settled: number; // transition over, the sign's own movement starts
+  end: number;
+};
+
+export type Timeline = { items: TimelineItem[]; duration: number };
+
+const bounce = () => getSigns((sign) => sign.type === "COMMAND" && sign.value === "DOUBLE")[0]?.motion;
+
+const motionOf = (step: SignStep): MotionSpec | undefined => step.sign?.motion ?? (step.double ? bounce() : undefined);
+
+export function buildTimeline(steps: SignStep[]): Timeline {
+  let time = 0;
+  const items = steps.map((step, index): TimelineItem => {
+    const start = time;
+    const settled = start + TRANSITION_MS;
+    const motion = motionOf(step);
+    time = settled + (!step.sign ? PAUSE_MS : motion ? (motion.duration ?? DEFAULT_MOTION_DURATION) * MOTION_SLOWDOWN : HOLD_MS);
+    return {index, step, start, settled, end: time};
+  });
+  return {items, duration: time};
+}
+
+export type PlaybackFrame = {
+  item: TimelineItem | null;
+  hands: { landmarks: NormalizedLandmark[]; dominant: boolean }[];
+};
+
+// Where the hands are drawn, normalised coordinates of a square view
+const DOMINANT_AT = {x: 0.5, y: 0.72};
+const HAND_SIZE = 0.2; // palm length
+const TWO_HANDED_OFFSET = 0.12; // each hand from the middle, when they don't touch
+const CONTACT_GAP = 0.15; // palm lengths left between touching landmarks
+const ROOF_ROLL = 30; // hands touching at the tips lean in towards each other
+
+// The signer's head and shoulders the hands are placed against, in the same view (the signer's right on the
+// image's left, as the camera sees them). Proportioned to the hands: the face is about one and a half palms long.
+export const PLAYER_BODY: BodyAnchors = {
+  right: {
+    forehead: [0.5, 0.14], eyes: [0.5, 0.22], nose: [0.5, 0.27], mouth: [0.5, 0.33], chin: [0.5, 0.4],
+    cheek: [0.39, 0.3], ear: [0.34, 0.25], neck: [0.5, 0.48], shoulder: [0.2, 0.56], chest: [0.5, 0.7],
+  },
+  left: {
+    forehead: [0.5, 0.14], eyes: [0.5, 0.22], nose: [0.5, 0.27], mouth: [0.5, 0.33], chin: [0.5, 0.4],
+    cheek: [0.61, 0.3], ear: [0.66, 0.25], neck: [0.5, 0.48], shoulder: [0.8, 0.56], chest: [0.5, 0.7],
+  },
+};
+
+const easeInOut = (t: number) => (t < 0.5 ? 2 * t * t : 1 - (-2 * t + 2) ** 2 / 2);
+const clamp01 = (t: number) => Math.min(1, Math.max(0, t));
+
+function translate(landmarks: NormalizedLandmark[], dx: number, dy: number): NormalizedLandmark[] {
+  return landmarks.map((l) => ({...l, x: l.x + dx, y: l.y + dy}));
+}
+
+// Position along a path motion at t = 0..1, palm lengths from its start
+function pathOffset(path: [number, number][], t: number): [number, number] {
+  const points = resampleByLength(path, 32);
+  return points[Math.round(t * (points.length - 1))];
+}
+
+// The sign's own movement at t = 0..1: how far the hand has moved (palm lengths) and turned. `outwardX` is the
+// image direction of the signing hand's side, for outward paths.
+function motionAt(motion: MotionSpec | undefined, t: number, outwardX: number): { dx: number; dy: number; yaw: number } {
+  switch (motion?.kind) {
+    case "path": {
+      const [dx, dy] = pathOffset(motion.path, t);
+      return {dx: motion.outward ? dx * outwardX : dx, dy, yaw: 0};
+    }
+    case "twist":
+      return {dx: 0, dy: 0, yaw: easeInOut(t) * motion.minDegrees * 1.4};
+    case "tremor": {
+      // Enough back and forth for the recognizer, with half again the distance it asks for
+      const cycles = motion.minReversals / 2 + 1;
+      const amplitude = (1.5 * motion.minPath) / (4 * cycles);
+      const offset = Math.sin(t * cycles * 2 * Math.PI) * amplitude;
+      return motion.axis === "x" ? {dx: offset, dy: 0, yaw: 0} : {dx: 0, dy: offset, yaw: 0};
+    }
+    default:
+      return {dx: 0, dy: 0, yaw: 0};
+  }
+}
+
+type StepPoses = { dominant: HandPose; other: HandPose | null; shift: { dx: number; dy: number } };
+
+// Moves a hand posed at `at` so the sign's location landmark is on its body anchor (the first one it names)
+function locationShift(
+  location: LocationSpec | undefined,
+  pose: HandPose,
+  handedness: HandPlacement["handedness"],
+  at: { x: number; y: number }
+): { dx: number; dy: number } {
+  const anchor = location && [location.near].flat().find((near): near is BodyAnchor => near !== "neutral");
+  if (!location || !anchor) return {dx: 0, dy: 0};
+  const [x, y] = PLAYER_BODY[signerSide(handednessCategory(handedness))][anchor]!;
+  const landmark = poseLandmarks(pose, {handedness, ...at, size: HAND_SIZE})[landmarkIndex(location.landmark ?? "middleMcp")];
+  return {dx: x - landmark.x, dy: y - landmark.y};
+}
+
+function posesOf(step: SignStep | undefined, labels: [HandPlacement["handedness"], HandPlacement["handedness"]]): StepPoses {
+  const sign = step?.sign;
+  if (!sign) return {dominant: REST_POSE, other: null, shift: {dx: 0, dy: 0}};
+  const dominant = poseForShape(sign, labels[0]);
+  const shift = locationShift(sign.location, dominant, labels[0], DOMINANT_AT);
+  if (!sign.nonDominant) return {dominant, other: null, shift};
+  const other = poseForShape(sign.nonDominant, labels[1]);
+  const roof = !sign.parallel && (sign.between ?? []).some((contact) => contact.touching);
+  if (!roof) return {dominant, other, shift};
+  // The dominant hand is on the image's left for a right-handed signer; both lean towards the middle
+  const lean = labels[0] === "Left" ? ROOF_ROLL : -ROOF_ROLL;
+  return {dominant: {...dominant, roll: dominant.roll + lean}, other: {...other, roll: other.roll - lean}, shift};
+}
+
+// The hands at `time` ms into the timeline
+export function frameAt(timeline: Timeline, time: number, dominantHand: DominantHand): PlaybackFrame {
+  const {items} = timeline;
+  const i = items.findIndex((item) => time < item.end);
+  const item = i >= 0 ? items[i] : items[items.length - 1] ?? null;
+  const labels: [HandPlacement["handedness"], HandPlacement["handedness"]] =
+    dominantHand === "right" ? ["Left", "Right"] : ["Right", "Left"];
+  const dominantSide = dominantHand === "right" ? -1 : 1; // the signer's right hand is on the image's left
+
+  const previous = posesOf(item && items[item.index - 1]?.step, labels);
+  const current = posesOf(item?.step, labels);
+  const blend = item ? easeInOut(clamp01((time - item.start) / (item.settled - item.start))) : 1;
+  const progress = item ? clamp01((time - item.settled) / (item.end - item.settled)) : 0;
+  const movement = motionAt(item && motionOf(item.step), progress, dominantSide);
+
+  const dominantPose = blendPoses(previous.dominant, current.dominant, blend);
+  dominantPose.yaw += movement.yaw;
+  const twoHanded = current.other !== null;
+  // Signs made at a place on the body start there (their movement goes on from it)
+  const shift = {
+    dx: previous.shift.dx + (current.shift.dx - previous.shift.dx) * blend,
+    dy: previous.shift.dy + (current.shift.dy - previous.shift.dy) * blend,
+  };
+  const at = {
+    x: DOMINANT_AT.x + (twoHanded ? dominantSide * TWO_HANDED_OFFSET : 0) + shift.dx + movement.dx * HAND_SIZE,
+    y: DOMINANT_AT.y + shift.dy + movement.dy * HAND_SIZE,
+  };
+  const dominant = poseLandmarks(dominantPose, {handedness: labels[0], ...at, size: HAND_SIZE});
+  const hands = [{landmarks: dominant, dominant: true}];
+  if (!current.other) return {item, hands};
+
+  // The other hand comes in with the sign, next to the signing hand or touching it where the sign says
+  const otherAt = {x: DOMINANT_AT.x - dominantSide * TWO_HANDED_OFFSET, y: DOMINANT_AT.y};
+  let other = poseLandmarks(blendPoses(previous.other ?? REST_POSE, current.other, blend),
+    {handedness: labels[1], ...otherAt, size: HAND_SIZE});
+  const contact = item?.step.sign?.between?.find((c) => c.touching);
+  if (contact) {
+    const a = dominant[landmarkIndex(contact.a)];
+    const b = other[landmarkIndex(contact.b)];
+    other = translate(other, a.x - b.x - dominantSide * CONTACT_GAP * HAND_SIZE, a.y - b.y);
+  }
+  return {item, hands: [...hands, {landmarks: other, dominant: false}]};
+}
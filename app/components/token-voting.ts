@@ -0,0 +1,59 @@
+import type {GestureToken} from "./libras-logic";
+
+// Multi-frame voting: the recognised token is the one most frames agreed on over a short time window,
+// so a single-frame flicker (F -> T -> F) doesn't reset the hold timer while a real change still wins
+// within about half a window.
+export type VotingOptions = {
+  windowMs: number; // 0 disables voting
+};
+
+export const DEFAULT_VOTING: VotingOptions = {
+  windowMs: 200,
+};
+
+const keyOf = (token: GestureToken | null) => (token ? `${token.type}:${token.value}` : "");
+
+export class TokenVoter {
+  private votes: { t: number; token: GestureToken | null }[] = [];
+
+  constructor(public options: VotingOptions = DEFAULT_VOTING) {
+  }
+
+  reset() {
+    this.votes = [];
+  }
+
+  // t in ms, same clock as the frames
+  push(token: GestureToken | null, t: number): GestureToken | null {
+    // Movements are recognised once, at the end of the movement: never hold them back
+    if (token && (token.type === "WORD" || token.motion)) {
+      this.votes = [];
+      return token;
+    }
+    if (this.options.windowMs <= 0) return token;
+
+    this.votes.push({t, token});
+    this.votes = this.votes.filter((vote) => vote.t > t - this.options.windowMs);
+
+    // Confidence-weighted tally; the latest token of the winning kind carries the result
+    const tally = new Map<string, { weight: number; count: number; confidence: number; latest: GestureToken | null }>();
+    for (const {token: vote} of this.votes) {
+      const key = keyOf(vote);
+      const entry = tally.get(key) ?? {weight: 0, count: 0, confidence: 0, latest: null};
+      entry.weight += vote ? vote.confidence : 0.5; // "no sign" votes with a neutral weight
+      entry.count++;
+      entry.confidence += vote?.confidence ?? 0;
+      entry.latest = vote;
+      tally.set(key, entry);
+    }
+
+    // Ties go to the current frame's token, so the output follows a real change as soon as it draws level
+    const current = tally.get(keyOf(token))!;
+    let winner = current;
+    for (const entry of tally.values()) {
+      if (entry.weight > winner.weight) winner = entry;
+    }
+    if (!winner.latest) return null;
+    return {...winner.latest, confidence: winner.confidence / winner.count};
+  }
+}
@@ -0,0 +1,94 @@
+import {type ChangeEvent, useState} from "react";
+import type {GestureToken} from "./libras-logic";
+import {type ClassifierMode, summarizeModel, type TrainedModel, type TrainingSample} from "./sign-classifier";
+
+type SignRef = Pick<TrainingSample, "type" | "value">;
+
+type TrainingPanelProps = {
+  model: TrainedModel;
+  mode: ClassifierMode;
+  onModeChange: (mode: ClassifierMode) => void;
+  capture: { sign: SignRef; progress: number } | null; // progress 0..100 while samples are being captured
+  canCapture: boolean;
+  onCapture: (sign: SignRef) => void;
+  onRemove: (sign: SignRef) => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+};
+
+const MODES: { value: ClassifierMode; label: string }[] = [
+  {value: "rules", label: "Rules only"},
+  {value: "fuse", label: "Rules + my model"},
+  {value: "learned", label: "My model only"},
+];
+
+// Record labelled handshape samples from the webcam and manage the learned model
+export function TrainingPanel(props: TrainingPanelProps) {
+  const {model, mode, capture} = props;
+  const [label, setLabel] = useState("");
+  const [type, setType] = useState<GestureToken["type"]>("LETTER");
+  const signs = summarizeModel(model);
+
+  const value = label.trim().toUpperCase();
+  const sign: SignRef = {type, value: type === "NUMBER" ? Number(value) : value};
+  const valid = value.length > 0 && (type !== "NUMBER" || Number.isInteger(sign.value));
+
+  function handleImport(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (file) props.onImport(file);
+  }
+
+  return (
+    <div className="w-full max-w-[640px] bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+      <div className="flex justify-between items-end mb-4">
+        <h3 className="text-gray-500 text-sm font-bold uppercase tracking-wider">Train My Signs</h3>
+        <select value={mode} onChange={(e) => props.onModeChange(e.target.value as ClassifierMode)}
+                className="text-sm bg-gray-100 rounded px-2 py-1">
+          {MODES.map((m) => <option key={m.value} value={m.value}>{m.label}</option>)}
+        </select>
+      </div>
+
+      <div className="flex gap-2 items-center">
+        <select value={type} onChange={(e) => setType(e.target.value as GestureToken["type"])}
+                className="text-sm bg-gray-100 rounded px-2 py-1">
+          <option value="LETTER">Letter</option>
+          <option value="NUMBER">Number</option>
+          <option value="WORD">Word</option>
+        </select>
+        <input value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Sign, e.g. A"
+               className="flex-1 text-sm border border-gray-200 rounded px-2 py-1"/>
+        <button onClick={() => props.onCapture(sign)} disabled={!valid || !props.canCapture || !!capture}
+                className="px-3 py-1 bg-[#007f8b] text-white rounded text-sm font-medium disabled:opacity-40">
+          {capture ? `Capturing ${capture.sign.value}… ${Math.round(capture.progress)}%` : "Capture Samples"}
+        </button>
+      </div>
+      <p className="text-xs text-gray-400 mt-2">
+        Hold the handshape in front of the camera; move it a little while capturing for a sturdier model.
+      </p>
+
+      <ul className="mt-4 flex flex-wrap gap-2">
+        {signs.length === 0 && <li className="text-gray-300 italic text-sm">No trained signs yet</li>}
+        {signs.map((s) => (
+          <li key={`${s.type}:${s.value}`} className="flex items-center gap-1 bg-gray-100 rounded px-2 py-1 text-sm">
+            <span className="font-mono font-bold">{s.value}</span>
+            <span className="text-gray-400 text-xs">×{s.count}</span>
+            <button onClick={() => props.onRemove(s)} className="text-red-500 text-xs hover:underline ml-1">✕</button>
+          </li>
+        ))}
+      </ul>
+
+      <div className="mt-4 flex gap-4">
+        <button onClick={props.onExport} disabled={signs.length === 0}
+                className="text-sm text-[#007f8b] hover:underline disabled:opacity-40 disabled:no-underline">
+          Export Model
+        </button>
+        <label className="text-sm text-gray-500 hover:underline cursor-pointer">
+          Import Model
+          <input type="file" accept=".json,application/json" className="hidden" onChange={handleImport}/>
+        </label>
+        <span className="text-xs text-gray-400 ml-auto self-center">Model: {model.name}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+// Transcript with undo/redo. Every edit (a typed letter, an accepted word, a clear) is one step, so
+// UNDO takes back exactly what the last confirmation did. Immutable, for React state and the replay runner.
+export type TranscriptHistory = {
+  past: string[]; // oldest first
+  present: string;
+  future: string[]; // next redo first
+};
+
+export const HISTORY_LIMIT = 200;
+
+// Editing commands every front end applies the same way (COMMAND token values)
+export type EditCommand = "SPACE" | "BACKSPACE" | "CLEAR" | "UNDO" | "REDO";
+
+export const createHistory = (text = ""): TranscriptHistory => ({past: [], present: text, future: []});
+
+export function editTranscript(history: TranscriptHistory, text: string, limit = HISTORY_LIMIT): TranscriptHistory {
+  if (text === history.present) return history;
+  return {past: [...history.past, history.present].slice(-limit), present: text, future: []};
+}
+
+export function undoTranscript(history: TranscriptHistory): TranscriptHistory {
+  if (history.past.length === 0) return history;
+  return {
+    past: history.past.slice(0, -1),
+    present: history.past[history.past.length - 1],
+    future: [history.present, ...history.future],
+  };
+}
+
+export function redoTranscript(history: TranscriptHistory): TranscriptHistory {
+  if (history.future.length === 0) return history;
+  return {
+    past: [...history.past, history.present],
+    present: history.future[0],
+    future: history.future.slice(1),
+  };
+}
+
+export function applyEditCommand(history: TranscriptHistory, command: EditCommand): TranscriptHistory {
+  switch (command) {
+    case "SPACE":
+      return editTranscript(history, history.present + " ");
+    case "BACKSPACE":
+      return editTranscript(history, history.present.slice(0, -1));
+    case "CLEAR":
+      return editTranscript(history, "");
+    case "UNDO":
+      return undoTranscript(history);
+    case "REDO":
+      return redoTranscript(history);
+  }
+}
+
+export const isEditCommand = (value: unknown): value is EditCommand =>
+  value === "SPACE" || value === "BACKSPACE" || value === "CLEAR" || value === "UNDO" || value === "REDO";
@@ -0,0 +1,181 @@
+// Timestamped record of a transcription session: every confirmed sign with when it was signed and how sure
+// the recognizer was (the JSON event log, for auditing recognition), and the timing of each character of
+// the transcript (for captions). Times are ms since the session started. Immutable, for React state.
+export const TRANSCRIPT_FORMAT = "hand-speak-transcript";
+export const TRANSCRIPT_VERSION = 1;
+
+export type TranscriptEventKind = "letter" | "word" | "number" | "command";
+
+export type TranscriptEvent = {
+  kind: TranscriptEventKind;
+  value: string;
+  start: number; // the sign first appeared
+  end: number; // the sign was confirmed
+  confidence?: number;
+  alternatives?: string[]; // runner-up signs (letters and numbers)
+};
+
+// When a transcript character was written, by a sign or by an edit (confidence 1)
+export type CharTiming = { start: number; end: number; confidence: number };
+
+export type TranscriptLog = {
+  startedAt: string; // ISO date
+  text: string; // the transcript
+  timings: CharTiming[]; // one per character of `text`
+  events: TranscriptEvent[];
+};
+
+export type CaptionCue = { start: number; end: number; text: string; confidence: number };
+
+export type CaptionOptions = {
+  maxChars: number; // characters per cue
+  maxDuration: number; // ms
+  maxGap: number; // ms between two words that starts a new cue
+  minDuration: number; // ms a cue stays on screen, unless the next one starts earlier
+};
+
+export const DEFAULT_CAPTION_OPTIONS: CaptionOptions = {
+  maxChars: 42,
+  maxDuration: 6000,
+  maxGap: 2000,
+  minDuration: 1200,
+};
+
+export const createLog = (startedAt = new Date()): TranscriptLog =>
+  ({startedAt: startedAt.toISOString(), text: "", timings: [], events: []});
+
+// Wall-clock time (ms since the epoch) to session time
+const sessionTime = (log: TranscriptLog, time: number) => Math.max(0, Math.round(time - Date.parse(log.startedAt)));
+
+// `start` and `end` are wall-clock times (Date.now())
+export function logEvent(log: TranscriptLog, event: TranscriptEvent): TranscriptLog {
+  const timed = {...event, start: sessionTime(log, event.start), end: sessionTime(log, event.end)};
+  if (event.confidence !== undefined) timed.confidence = Math.round(event.confidence * 1000) / 1000;
+  return {...log, events: [...log.events, timed]};
+}
+
+// The transcript changed to `text`. Edits only touch its end and an accepted suggestion rewrites the word in
+// place, so each character keeps the timing of the one that stood at its position; new characters get
+// `timing` (wall-clock times).
+export function updateLogText(log: TranscriptLog, text: string, timing: CharTiming): TranscriptLog {
+  if (text === log.text) return log;
+  const written = {...timing, start: sessionTime(log, timing.start), end: sessionTime(log, timing.end)};
+  const timings = Array.from({length: text.length}, (_, i) => log.timings[i] ?? written);
+  return {...log, text, timings};
+}
+
+// --- Captions ---
+
+type TimedWord = { text: string } & CharTiming;
+
+function timedWords(log: TranscriptLog): TimedWord[] {
+  const words: TimedWord[] = [];
+  let current: TimedWord | null = null;
+  for (let i = 0; i < log.text.length; i++) {
+    const char = log.text[i];
+    if (/\s/.test(char)) {
+      current = null;
+      continue;
+    }
+    const timing = log.timings[i] ?? {start: 0, end: 0, confidence: 1};
+    if (!current) {
+      current = {text: "", ...timing};
+      words.push(current);
+    }
+    current.text += char;
+    current.start = Math.min(current.start, timing.start);
+    current.end = Math.max(current.end, timing.end);
+    current.confidence = Math.min(current.confidence, timing.confidence);
+  }
+  return words;
+}
+
+// Words grouped into caption cues: a cue ends at a pause, or when it gets too long to read
+export function captionCues(log: TranscriptLog, options: Partial<CaptionOptions> = {}): CaptionCue[] {
+  const {maxChars, maxDuration, maxGap, minDuration} = {...DEFAULT_CAPTION_OPTIONS, ...options};
+  const cues: CaptionCue[] = [];
+  let cue: CaptionCue | null = null;
+  for (const word of timedWords(log)) {
+    const fits = cue !== null && cue.text.length + 1 + word.text.length <= maxChars &&
+      word.end - cue.start <= maxDuration && word.start - cue.end <= maxGap;
+    if (cue && fits) {
+      cue.text += " " + word.text;
+      cue.end = Math.max(cue.end, word.end);
+      cue.confidence = Math.min(cue.confidence, word.confidence);
+    } else {
+      cue = {...word};
+      cues.push(cue);
+    }
+  }
+  return cues.map((c, i) => {
+    const next = cues[i + 1]?.start ?? Infinity;
+    return {...c, end: Math.max(c.end, Math.min(c.start + minDuration, next))};
+  });
+}
+
+// 01:02:03.456 (WebVTT) or 01:02:03,456 (SRT)
+export function formatTimestamp(ms: number, separator: "." | ","): string {
+  const pad = (n: number, width = 2) => String(Math.floor(n)).padStart(width, "0");
+  return `${pad(ms / 3_600_000)}:${pad((ms / 60_000) % 60)}:${pad((ms / 1000) % 60)}${separator}${pad(ms % 1000, 3)}`;
+}
+
+export function toWebVTT(log: TranscriptLog, options?: Partial<CaptionOptions>): string {
+  const cues = captionCues(log, options).map((cue) =>
+    `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(cue.end, ".")}\n${cue.text}`
+  );
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+}
+
+export function toSRT(log: TranscriptLog, options?: Partial<CaptionOptions>): string {
+  return captionCues(log, options).map((cue, i) =>
+    `${i + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(cue.end, ",")}\n${cue.text}\n`
+  ).join("\n");
+}
+
+export const toPlainText = (log: TranscriptLog) => log.text.trim() + "\n";
+
+// Event log with the caption words, for auditing: what was signed, when, and how confidently
+export function toJSON(log: TranscriptLog): string {
+  return JSON.stringify({
+    format: TRANSCRIPT_FORMAT,
+    version: TRANSCRIPT_VERSION,
+    startedAt: log.startedAt,
+    text: log.text,
+    words: timedWords(log),
+    events: log.events,
+  }, null, 2);
+}
+
+// Downloads: captions, plain text, or the JSON event log
+export type TranscriptExport = { label: string; extension: string; type: string; build: (log: TranscriptLog) => string };
+
+export const TRANSCRIPT_EXPORTS: TranscriptExport[] = [
+  {label: "WebVTT", extension: "vtt", type: "text/vtt", build: (log) => toWebVTT(log)},
+  {label: "SRT", extension: "srt", type: "application/x-subrip", build: (log) => toSRT(log)},
+  {label: "Text", extension: "txt", type: "text/plain", build: toPlainText},
+  {label: "JSON", extension: "json", type: "application/json", build: toJSON},
+];
+
+// --- Storage (localStorage): the transcript survives a reload ---
+const STORAGE_KEY = "hand-speak-transcript";
+
+export function loadLog(): TranscriptLog {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null") as TranscriptLog | null;
+    if (stored && typeof stored.text === "string" && Array.isArray(stored.timings) && Array.isArray(stored.events) &&
+      stored.timings.length === stored.text.length) {
+      return stored;
+    }
+  } catch (e) {
+    console.warn("Ignoring stored transcript", e);
+  }
+  return createLog();
+}
+
+export function saveLog(log: TranscriptLog) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(log));
+  } catch (e) {
+    console.warn("Could not save the transcript", e);
+  }
+}
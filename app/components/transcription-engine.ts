@@ -1,92 +1,355 @@
 // TranscriptionEngine.ts
 import type {GestureToken} from "./libras-logic";
+import {EventEmitter} from "./event-emitter";
+import {combineNumberSequence} from "./libras-numbers";
+
+// hold: each letter is held until the ring fills. continuous: letters are cut out of fluent fingerspelling
+// where the handshape settles and the hand slows down; a pause or dropping the hand ends the word.
+export type TypingMode = "hold" | "continuous";
+
+export type TranscriptionOptions = {
+  typingMode: TypingMode;
+  holdDuration: number; // ms to hold before typing
+  earlyLockMs: number; // if confidence is high, lock earlier
+  highConfidence: number; // confidence needed for the early lock
+  wordCooldown: number; // ms before the same motion sign can be emitted again
+  composeNumbers: boolean; // consecutive digits make up one number (number mode)
+  numberPause: number; // ms without a hand that ends a composed number
+  commandHold: number; // ms to hold a static control gesture (UNDO, ACCEPT, ...)
+  releaseMs: number; // ms a typed sign has to be gone (hand away or another shape) before it can be typed again
+  // continuous typing
+  letterMinMs: number; // ms a handshape has to be seen to count as a letter
+  stillSpeed: number; // palm lengths per second below which the hand is settled on a letter
+  wordPause: number; // ms holding the last letter still that ends the word
+  wordDrop: number; // ms without a sign that ends the word (hand dropped or out of view)
+};
 
 // Faster confirmation to match conversational speed
-export const HOLD_DURATION = 400; // ms to hold before typing
-const EARLY_LOCK_MS = 250; // if confidence is high, lock earlier
-const HIGH_CONFIDENCE = 0.90;
-
-export type TranscriptionState = {
-  currentLetter: string | null; // letter/number being held right now (for UI ring)
-  progress: number; // 0 to 100
-  confirmedLetter: string | null; // emitted when a letter/number locks-in
-  confirmedWord?: string | null; // emitted immediately when a word gesture is detected
+export const DEFAULT_TRANSCRIPTION_OPTIONS: TranscriptionOptions = {
+  typingMode: "hold",
+  holdDuration: 400,
+  earlyLockMs: 250,
+  highConfidence: 0.90,
+  wordCooldown: 700,
+  composeNumbers: false,
+  numberPause: 1500,
+  commandHold: 800,
+  releaseMs: 150,
+  letterMinMs: 120,
+  stillSpeed: 2,
+  wordPause: 700,
+  wordDrop: 300,
+};
+
+// The signing hand on this frame; null when it is out of view
+export type HandState = {
+  speed: number; // palm lengths per second
+};
+
+// Returns the current time in ms; replay and tests pass recorded timestamps instead of the wall clock
+export type Clock = () => number;
+
+export type TranscriptionEvents = {
+  // letter/number being held right now (for UI ring), emitted for every processed frame;
+  // alternatives are runner-up signs close enough that the signer may want to adjust their hand
+  progress: { letter: string | null; progress: number; alternatives: GestureToken[] };
+  // emitted when a letter/number locks-in, with the runner-ups it beat (for later correction).
+  // `start` is when the sign first appeared, `time` when it was confirmed
+  letterConfirmed: { letter: string; token: GestureToken; start: number; time: number; alternatives: GestureToken[] };
+  // emitted immediately when a word gesture is detected
+  wordConfirmed: { word: string; token: GestureToken; start: number; time: number };
+  // composeNumbers: a run of digits ended (pause, another sign, or flushNumber); the digits were already
+  // typed one by one through letterConfirmed
+  numberConfirmed: { value: string; digits: number[]; start: number; time: number }; // value keeps leading zeros
+  // a control gesture (COMMAND token: SPACE, BACKSPACE, UNDO, ...); swipes at once, static ones after commandHold.
+  // Not DOUBLE: the bounce types the held letter again through letterConfirmed
+  commandConfirmed: { command: string; token: GestureToken; start: number; time: number };
+  // continuous typing: the hand paused or dropped after spelling `word` (its letters were already typed
+  // through letterConfirmed)
+  wordEnded: { word: string; time: number };
+  // hold timer restarted: a different sign appeared, or reset() was called
+  reset: { reason: "changed" | "manual" };
 };
 
-let lastLetter: string | null = null;
-let holdStartTime: number = 0;
+// Hold-to-type state machine for one recognizer. Each session owns its timers,
+// so several can run side by side and nothing leaks between page mounts.
+export class TranscriptionSession extends EventEmitter<TranscriptionEvents> {
+  private options: TranscriptionOptions;
+  private readonly clock: Clock;
+
+  private lastLetter: string | null = null;
+  private holdStartTime = 0;
+  // The token seen on consecutive frames and since when (start time of the confirmed signs)
+  private sign: string | null = null;
+  private signStart = 0;
+  // A typed sign stays typed while it is held: it re-arms once released, or is doubled with a bounce
+  private awaitingRelease = false;
+  private heldToken: GestureToken | null = null;
+  private letterSeenTime = 0;
+  private lastDoubleTime = 0;
 
-// Word cooldown to avoid repeating the same word each frame
-let lastWord: string | null = null;
-let lastWordTime = 0;
-const WORD_COOLDOWN = 700; // ms
+  // Word cooldown to avoid repeating the same motion sign each frame; a static word waits for its release instead
+  private lastWord: string | null = null;
+  private lastWordTime = 0;
+  private wordSeenTime = 0;
 
-export function processTranscription(token: GestureToken | null): TranscriptionState {
-  const now = performance.now();
+  // Digits of the number being composed
+  private digits: number[] = [];
+  private numberStart = 0;
+  private lastDigitTime = 0;
 
-  // No detection
-  if (!token) {
-    // Do not reset holdStartTime to preserve progress briefly; but clear currentLetter UI
-    return {currentLetter: null, progress: 0, confirmedLetter: null, confirmedWord: null};
+  // Continuous typing: the handshape seen since `start`, whether it was typed, and the word so far
+  private segment: { letter: string | null; start: number; typed: boolean } = {letter: null, start: 0, typed: false};
+  private spelled = "";
+  private lastSignTime = 0;
+  private lastLetterTime = 0;
+
+  constructor(options: Partial<TranscriptionOptions> = {}, clock: Clock = () => performance.now()) {
+    super();
+    this.options = {...DEFAULT_TRANSCRIPTION_OPTIONS, ...options};
+    this.clock = clock;
   }
 
-  if (token.type === "WORD") {
-    // Immediate confirmation with cooldown
-    if (token.value === lastWord && now - lastWordTime < WORD_COOLDOWN) {
-      return {currentLetter: null, progress: 0, confirmedLetter: null, confirmedWord: null};
-    }
-    lastWord = String(token.value);
-    lastWordTime = now;
-    return {currentLetter: null, progress: 0, confirmedLetter: null, confirmedWord: String(token.value)};
+  setOptions(options: Partial<TranscriptionOptions>) {
+    const typingMode = this.options.typingMode;
+    this.options = {...this.options, ...options};
+    if (!this.options.composeNumbers) this.flushNumber();
+    if (this.options.typingMode !== typingMode) this.endWord(this.clock());
+  }
+
+  getOptions(): TranscriptionOptions {
+    return this.options;
+  }
+
+  reset() {
+    this.lastLetter = null;
+    this.holdStartTime = 0;
+    this.awaitingRelease = false;
+    this.heldToken = null;
+    this.letterSeenTime = 0;
+    this.lastDoubleTime = 0;
+    this.lastWord = null;
+    this.lastWordTime = 0;
+    this.wordSeenTime = 0;
+    this.sign = null;
+    this.signStart = 0;
+    this.lastSignTime = 0;
+    this.lastLetterTime = 0;
+    this.digits = [];
+    this.numberStart = 0;
+    this.lastDigitTime = 0;
+    this.segment = {letter: null, start: 0, typed: false};
+    this.spelled = "";
+    this.emit("reset", {reason: "manual"});
   }
 
-  // Handle NUMBER type (convert to string for display)
-  if (token.type === "NUMBER") {
-    token.value = String(token.value);
+  // Number composed so far, null when no digits are pending
+  get pendingNumber(): string | null {
+    return combineNumberSequence(this.digits);
   }
 
-  // Letter/Number logic with hold-to-type
-  const detectedLetter = String(token.value);
+  // Ends the number being composed, e.g. when the signer presses space or leaves number mode
+  flushNumber() {
+    const value = combineNumberSequence(this.digits);
+    if (value === null) return;
+    const digits = this.digits;
+    this.digits = [];
+    this.emit("numberConfirmed", {value, digits, start: this.numberStart, time: this.clock()});
+  }
+
+  // The last digit was erased from the transcript
+  dropDigit() {
+    this.digits.pop();
+  }
 
-  if (!detectedLetter) {
-    return {currentLetter: null, progress: 0, confirmedLetter: null, confirmedWord: null};
+  private confirmLetter(letter: string, token: GestureToken, now: number, alternatives: GestureToken[]) {
+    if (this.options.composeNumbers && token.type === "NUMBER") {
+      if (this.digits.length === 0) this.numberStart = this.signStart;
+      this.digits.push(...[...letter].map(Number));
+      this.lastDigitTime = now;
+    } else {
+      this.flushNumber();
+    }
+    if (this.options.typingMode === "continuous") {
+      this.spelled += letter;
+      this.lastLetterTime = now;
+    }
+    this.emit("letterConfirmed", {letter, token, start: this.signStart, time: now, alternatives});
   }
 
-  if (detectedLetter !== lastLetter) {
-    lastLetter = detectedLetter;
-    holdStartTime = now; // Reset timer
-    return {currentLetter: detectedLetter, progress: 0, confirmedLetter: null, confirmedWord: null};
+  // DOUBLE command: the letter still held was typed once, and the bounce asks for it again (SS in ASSIM)
+  private doubleLetter(now: number) {
+    const typed = this.options.typingMode === "continuous" ? this.segment.typed : this.awaitingRelease;
+    const token = this.heldToken;
+    if (!typed || !token || now - this.letterSeenTime > this.options.releaseMs) return;
+    this.lastDoubleTime = now;
+    this.confirmLetter(String(token.value), token, now, []);
   }
 
-  const elapsed = now - holdStartTime;
-  const progress = Math.min((elapsed / HOLD_DURATION) * 100, 100);
-
-  // Early lock path for very confident, stable detections
-  if (token.confidence >= HIGH_CONFIDENCE && elapsed >= EARLY_LOCK_MS) {
-    holdStartTime = now + 300; // small debounce
-    return {
-      currentLetter: detectedLetter,
-      progress: Math.max(progress, 100),
-      confirmedLetter: detectedLetter,
-      confirmedWord: null,
-    };
+  // Continuous typing: closes the word being spelled
+  private endWord(now: number) {
+    this.flushNumber();
+    if (!this.spelled) return;
+    const word = this.spelled;
+    this.spelled = "";
+    this.emit("wordEnded", {word, time: now});
   }
 
-  if (elapsed >= HOLD_DURATION) {
-    // Reset after confirm so we don't type repeatedly; require slight delay
-    holdStartTime = now + 400; // debounce window
-    return {
-      currentLetter: detectedLetter,
-      progress: 100,
-      confirmedLetter: detectedLetter,
-      confirmedWord: null,
-    };
+  // Continuous typing: a letter is typed once its handshape has been seen for letterMinMs and the hand
+  // slows down on it; it isn't typed again until the shape changes
+  private pushContinuous(token: GestureToken, alternatives: GestureToken[], hand: HandState | null, now: number) {
+    const {letterMinMs, stillSpeed, wordPause} = this.options;
+    const letter = String(token.value);
+    const still = !hand || hand.speed <= stillSpeed;
+    this.letterSeenTime = now;
+
+    if (letter !== this.segment.letter) {
+      this.segment = {letter, start: now, typed: false};
+      this.emit("progress", {letter, progress: 0, alternatives});
+      return;
+    }
+
+    if (!this.segment.typed) {
+      const elapsed = now - this.segment.start;
+      if (elapsed >= letterMinMs && still) {
+        this.segment.typed = true;
+        this.heldToken = token;
+        this.emit("progress", {letter, progress: 100, alternatives});
+        this.confirmLetter(letter, token, now, alternatives);
+      } else {
+        this.emit("progress", {letter, progress: Math.min((elapsed / letterMinMs) * 100, 99), alternatives});
+      }
+      return;
+    }
+
+    // Holding the last letter still ends the word
+    if (still && now - this.lastLetterTime >= wordPause) this.endWord(now);
+    this.emit("progress", {letter, progress: 100, alternatives});
+  }
+
+  // Feed the token recognised for the current frame (null when nothing was detected), with the
+  // runner-up candidates that are close to it and the signing hand's movement (continuous typing)
+  push(token: GestureToken | null, alternatives: GestureToken[] = [], hand: HandState | null = null) {
+    const now = this.clock();
+    const {earlyLockMs, highConfidence, wordCooldown} = this.options;
+    const continuous = this.options.typingMode === "continuous";
+    const sign = token && `${token.type}:${token.value}`;
+    if (sign !== this.sign) {
+      this.sign = sign;
+      this.signStart = now;
+    }
+
+    // No detection; a long enough pause ends the number being composed, or the word in continuous typing
+    if (!token) {
+      if (this.digits.length > 0 && now - this.lastDigitTime >= this.options.numberPause) this.flushNumber();
+      // Unclear shapes between letters are fine for a while; a hand out of view ends the word sooner
+      if (continuous && now - this.lastSignTime >= (hand ? this.options.wordPause : this.options.wordDrop)) {
+        this.segment = {letter: null, start: 0, typed: false};
+        this.endWord(now);
+      }
+      // Do not reset holdStartTime to preserve progress briefly; but clear currentLetter UI
+      this.emit("progress", {letter: null, progress: 0, alternatives: []});
+      return;
+    }
+
+    this.lastSignTime = now;
+
+    if (token.type === "WORD" || token.motion) {
+      // Immediate confirmation: motion signs only exist while moving, so they repeat after a cooldown; a static
+      // word is typed once while held and again only after it's released (gone for releaseMs)
+      const value = String(token.value);
+      if (token.type === "COMMAND" && value === "DOUBLE") {
+        if (now - this.lastDoubleTime >= wordCooldown) this.doubleLetter(now);
+        this.letterSeenTime = now; // the letter is still held through the bounce, not released
+        return;
+      }
+      this.emit("progress", {letter: null, progress: 0, alternatives: []});
+      const repeated = value === this.lastWord && (token.motion
+        ? now - this.lastWordTime < wordCooldown
+        : now - this.wordSeenTime < this.options.releaseMs);
+      if (!token.motion) this.wordSeenTime = now;
+      if (repeated) return;
+      this.lastWord = value;
+      this.lastWordTime = now;
+      if (token.type === "WORD") {
+        if (continuous) this.endWord(now);
+        else this.flushNumber();
+        this.emit("wordConfirmed", {word: value, token, start: this.signStart, time: now});
+      } else if (token.type === "COMMAND") {
+        this.emit("commandConfirmed", {command: value, token, start: this.signStart, time: now});
+      } else {
+        this.confirmLetter(value, token, now, alternatives);
+      }
+      return;
+    }
+
+    if (continuous && token.type !== "COMMAND") {
+      this.pushContinuous(token, alternatives, hand, now);
+      return;
+    }
+
+    // Letter/Number logic with hold-to-type (numbers are typed as their digits); static commands are held longer
+    const detectedLetter = String(token.value);
+    const isCommand = token.type === "COMMAND";
+    const holdDuration = isCommand ? this.options.commandHold : this.options.holdDuration;
+
+    if (!detectedLetter) {
+      this.emit("progress", {letter: null, progress: 0, alternatives: []});
+      return;
+    }
+
+    if (detectedLetter !== this.lastLetter) {
+      const hadLetter = this.lastLetter !== null;
+      this.lastLetter = detectedLetter;
+      this.holdStartTime = now; // Reset timer
+      this.awaitingRelease = false;
+      this.letterSeenTime = now;
+      if (hadLetter) this.emit("reset", {reason: "changed"});
+      this.emit("progress", {letter: detectedLetter, progress: 0, alternatives});
+      return;
+    }
+
+    // Typed already: wait until the sign is released (gone for releaseMs) before it can be typed again
+    const released = now - this.letterSeenTime >= this.options.releaseMs;
+    this.letterSeenTime = now;
+    if (this.awaitingRelease) {
+      if (!released) {
+        this.emit("progress", {letter: detectedLetter, progress: 100, alternatives});
+        return;
+      }
+      this.awaitingRelease = false;
+      this.holdStartTime = now;
+    }
+    const elapsed = now - this.holdStartTime;
+    const progress = Math.min((elapsed / holdDuration) * 100, 100);
+
+    // Early lock path for very confident, stable detections; an ambiguous sign always gets the full
+    // hold so the signer has time to see the alternatives and adjust
+    if (!isCommand && token.confidence >= highConfidence && elapsed >= earlyLockMs && alternatives.length === 0) {
+      this.awaitingRelease = true;
+      this.heldToken = token;
+      this.emit("progress", {letter: detectedLetter, progress: 100, alternatives});
+      this.confirmLetter(detectedLetter, token, now, alternatives);
+      return;
+    }
+
+    if (elapsed >= holdDuration) {
+      // Typed once: holding on doesn't repeat it
+      this.awaitingRelease = true;
+      this.heldToken = isCommand ? null : token;
+      this.emit("progress", {letter: detectedLetter, progress: 100, alternatives});
+      if (isCommand) this.emit("commandConfirmed", {command: detectedLetter, token, start: this.signStart, time: now});
+      else this.confirmLetter(detectedLetter, token, now, alternatives);
+      return;
+    }
+
+    this.emit("progress", {letter: detectedLetter, progress, alternatives});
   }
+}
 
-  return {
-    currentLetter: detectedLetter,
-    progress,
-    confirmedLetter: null,
-    confirmedWord: null,
-  };
-}
\ No newline at end of file
+// Appends a confirmed letter or word to the transcript (words are space separated)
+export function appendToTranscript(transcript: string, text: string, kind: "letter" | "word"): string {
+  if (kind === "letter") return transcript + text;
+  const needsSpace = transcript.length > 0 && !transcript.endsWith(" ");
+  return (needsSpace ? transcript + " " : transcript) + text + " ";
+}
@@ -0,0 +1,135 @@
+import {type ChangeEvent, useEffect, useMemo, useRef, useState} from "react";
+import {captionCues, formatTimestamp, toWebVTT, TRANSCRIPT_EXPORTS, type TranscriptLog} from "./transcript-log";
+import {DEFAULT_CAPTION_FPS, type VideoCaptionOptions, type VideoCaptionResult} from "./video-captioning";
+
+type VideoCaptioningPanelProps = {
+  onCaption: (url: string, options: VideoCaptionOptions) => Promise<VideoCaptionResult>;
+  onDownload: (content: string, type: string, filename: string) => void;
+};
+
+// Caption a recorded video: pick a file, generate captions with the current settings, watch the video with
+// them, and download them. Runs in the browser; the camera isn't needed.
+export function VideoCaptioningPanel({onCaption, onDownload}: VideoCaptioningPanelProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [progress, setProgress] = useState<number | null>(null); // null when not captioning
+  const [log, setLog] = useState<TranscriptLog | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+
+  const videoUrl = useMemo(() => (file ? URL.createObjectURL(file) : null), [file]);
+  const captionsUrl = useMemo(
+    () => (log ? URL.createObjectURL(new Blob([toWebVTT(log)], {type: "text/vtt"})) : null),
+    [log]
+  );
+  const cues = useMemo(() => (log ? captionCues(log) : []), [log]);
+
+  useEffect(() => () => {
+    if (videoUrl) URL.revokeObjectURL(videoUrl);
+  }, [videoUrl]);
+
+  useEffect(() => () => {
+    if (captionsUrl) URL.revokeObjectURL(captionsUrl);
+  }, [captionsUrl]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  function handleFile(event: ChangeEvent<HTMLInputElement>) {
+    const picked = event.target.files?.[0];
+    event.target.value = "";
+    if (!picked) return;
+    abortRef.current?.abort();
+    setFile(picked);
+    setLog(null);
+    setError(null);
+  }
+
+  async function generate() {
+    if (!videoUrl) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    setError(null);
+    try {
+      const result = await onCaption(videoUrl, {
+        fps: DEFAULT_CAPTION_FPS,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+      setLog(result.log);
+    } catch (e) {
+      if (!controller.signal.aborted) setError((e as Error).message);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setProgress(null);
+    }
+  }
+
+  const baseName = file?.name.replace(/\.[^.]+$/, "") ?? "video";
+
+  return (
+    <div className="w-full max-w-[640px] bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+      <h3 className="text-gray-500 text-sm font-bold uppercase tracking-wider mb-4">Caption a Video</h3>
+
+      <div className="flex gap-2 items-center">
+        <label className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium cursor-pointer">
+          Choose Video
+          <input type="file" accept="video/*" className="hidden" onChange={handleFile}/>
+        </label>
+        <span className="flex-1 text-sm text-gray-500 truncate">{file?.name ?? "No file selected"}</span>
+        {progress !== null ? (
+          <button onClick={() => abortRef.current?.abort()} className="px-3 py-1 bg-red-500 text-white rounded text-sm font-medium">
+            Cancel
+          </button>
+        ) : (
+          <button onClick={generate} disabled={!file}
+                  className="px-3 py-1 bg-[#007f8b] text-white rounded text-sm font-medium disabled:opacity-40">
+            Generate Captions
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-400 mt-2">
+        The video is processed frame by frame in this browser with the current hand, calibration and mode settings.
+      </p>
+
+      {progress !== null && (
+        <div className="mt-3 h-2 bg-gray-100 rounded overflow-hidden">
+          <div className="h-full bg-[#007f8b]" style={{width: `${Math.round(progress * 100)}%`}}/>
+        </div>
+      )}
+      {error && <p className="mt-3 text-sm text-red-500">Could not caption the video: {error}</p>}
+
+      {videoUrl && (
+        <video ref={videoRef} src={videoUrl} controls className="mt-4 w-full rounded-lg bg-black">
+          {captionsUrl && <track key={captionsUrl} kind="captions" srcLang="pt" label="LIBRAS" src={captionsUrl} default/>}
+        </video>
+      )}
+
+      {log && (
+        <>
+          <ul className="mt-4 max-h-48 overflow-y-auto text-sm divide-y divide-gray-100">
+            {cues.length === 0 && <li className="text-gray-300 italic py-1">No signs recognised in this video</li>}
+            {cues.map((cue) => (
+              <li key={cue.start}>
+                <button onClick={() => videoRef.current && (videoRef.current.currentTime = cue.start / 1000)}
+                        className="w-full text-left py-1 hover:bg-gray-50 flex gap-3">
+                  <span className="text-gray-400 font-mono text-xs pt-0.5">{formatTimestamp(cue.start, ".")}</span>
+                  <span className="font-mono">{cue.text}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-3 flex gap-3 items-center text-xs text-gray-500">
+            <span>Download:</span>
+            {TRANSCRIPT_EXPORTS.map(({label, extension, type, build}) => (
+              <button key={extension} onClick={() => onDownload(build(log), type, `${baseName}.${extension}`)}
+                      className="text-[#007f8b] hover:underline">
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import type {HandLandmarker, PoseLandmarker} from "@mediapipe/tasks-vision";
+import {createHandLandmarker, createPoseLandmarker, type DetectionOptions} from "./hand-landmarker";
+import {createRecording, recordFrame, type RecordingHeader, type SessionRecording} from "./session-recording";
+import {replaySession, type ReplayResult} from "./session-replay";
+import type {SignClassifier} from "./sign-classifier";
+import type {TranscriptionOptions} from "./transcription-engine";
+
+// Offline captioning of a video file: the video is stepped through frame by frame and hands are detected at
+// the file's own timestamps, so processing speed doesn't matter. The frames then go through the replay
+// pipeline like a recorded session, and the transcript log times the captions on the video's clock.
+// The file is read locally and never uploaded.
+
+export type VideoRecordingSettings = Pick<RecordingHeader, "dominantHand" | "thresholds" | "inputMode" | "typingMode">;
+
+export type VideoCaptionSettings = VideoRecordingSettings & {
+  transcription?: Partial<TranscriptionOptions>; // hold and spelling timings
+  detection?: DetectionOptions;
+  bodyTracking?: boolean; // find the body too, for signs made at a place on it
+};
+
+export type VideoCaptionOptions = {
+  fps: number; // frames sampled per second of video
+  onProgress?: (progress: number) => void; // 0..1, while detecting hands
+  signal?: AbortSignal;
+};
+
+export type VideoCaptionResult = ReplayResult & { recording: SessionRecording };
+
+export const DEFAULT_CAPTION_FPS = 30;
+
+function waitFor(video: HTMLVideoElement, event: "loadedmetadata" | "seeked"): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onError = () => reject(new Error("The video could not be decoded"));
+    video.addEventListener(event, () => {
+      video.removeEventListener("error", onError);
+      resolve();
+    }, {once: true});
+    video.addEventListener("error", onError, {once: true});
+  });
+}
+
+function seek(video: HTMLVideoElement, time: number): Promise<void> {
+  const seeked = waitFor(video, "seeked");
+  video.currentTime = time;
+  return seeked;
+}
+
+// Detects hands (and the body, with a pose landmarker) on every sampled frame of the video at `url`
+// (an object URL of the file)
+export async function recordVideo(
+  url: string,
+  landmarker: HandLandmarker,
+  settings: VideoRecordingSettings,
+  {fps, onProgress, signal}: VideoCaptionOptions,
+  poseLandmarker: PoseLandmarker | null = null
+): Promise<SessionRecording> {
+  const video = document.createElement("video");
+  video.muted = true;
+  video.preload = "auto";
+  const loaded = waitFor(video, "loadedmetadata");
+  video.src = url;
+  try {
+    await loaded;
+    // Recorded WebM files often don't state their duration until the end has been seeked to
+    if (!Number.isFinite(video.duration)) await seek(video, Number.MAX_SAFE_INTEGER);
+    if (!Number.isFinite(video.duration) || video.duration === 0) throw new Error("The video has no duration");
+
+    const recording = createRecording({label: "Captioned video", ...settings});
+    const frameCount = Math.floor(video.duration * fps);
+    for (let i = 0; i <= frameCount; i++) {
+      signal?.throwIfAborted();
+      const t = (i * 1000) / fps;
+      await seek(video, t / 1000);
+      const pose = poseLandmarker?.detectForVideo(video, t).landmarks[0] ?? null;
+      recordFrame(recording, t, {...landmarker.detectForVideo(video, t), pose});
+      onProgress?.(i / Math.max(1, frameCount));
+    }
+    return recording;
+  } finally {
+    video.removeAttribute("src");
+    video.load();
+  }
+}
+
+// Captions the video with landmarkers of its own (timestamps start again at 0) and the current settings.
+// Without the pose landmarker the video is captioned from the hands alone.
+export async function captionVideo(
+  url: string,
+  settings: VideoCaptionSettings,
+  classifier: SignClassifier | null,
+  options: VideoCaptionOptions
+): Promise<VideoCaptionResult> {
+  const {transcription = {}, detection, bodyTracking = false, ...header} = settings;
+  const {landmarker} = await createHandLandmarker(detection);
+  const pose = bodyTracking ? await createPoseLandmarker().catch((e) => {
+    console.warn("Body tracking is unavailable", e);
+    return null;
+  }) : null;
+  try {
+    const recording = await recordVideo(url, landmarker, header, options, pose?.landmarker);
+    return {...replaySession(recording, transcription, classifier), recording};
+  } finally {
+    landmarker.close();
+    pose?.landmarker.close();
+  }
+}
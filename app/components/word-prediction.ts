@@ -0,0 +1,169 @@
+// Word prediction and autocorrect for fingerspelling. The partial word is matched against a bundled
+// Portuguese lexicon and the user's own words with a prefix edit distance, so a completion is found
+// even when a letter was misrecognised. Swapping in a letter the recognizer itself named as a close
+// alternative (U for V, F for T) costs much less than any other correction. The ACCEPT command (thumbs up
+// with the other hand) or a click takes the first suggestion.
+
+export type Suggestion = {
+  word: string; // as written in the lexicon, with accents (NÃO for NAO)
+  cost: number; // edits needed to turn the typed letters into the start of the word
+  user: boolean; // from the user dictionary
+};
+
+// Letters of the partial word as confirmed, each with the runner-ups it beat
+export type SpelledLetter = { letter: string; alternatives: string[] };
+
+type LexiconEntry = { word: string; key: string; prior: number; user: boolean };
+
+const ALTERNATIVE_COST = 0.3;
+const EDIT_COST = 1;
+const USER_PRIOR = 1.2; // names and jargon the user added beat common words with the same cost
+const PRIOR_WEIGHT = 0.5;
+
+// Fingerspelling has no accents: match on the bare letters (Ç counts as C)
+export const normalizeWord = (word: string) =>
+  word.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toUpperCase();
+
+// Corrections allowed for the number of letters typed so far
+const maxCost = (length: number) => (length <= 2 ? ALTERNATIVE_COST : length <= 5 ? EDIT_COST : 2 * EDIT_COST);
+
+export class Lexicon {
+  private entries: LexiconEntry[] = [];
+
+  // `words` most frequent first
+  constructor(private readonly words: string[], userWords: string[] = []) {
+    this.setUserWords(userWords);
+  }
+
+  setUserWords(userWords: string[]) {
+    const user = userWords.map((word) => ({word, key: normalizeWord(word), prior: USER_PRIOR, user: true}));
+    const known = new Set(user.map((entry) => entry.key));
+    const bundled = this.words
+      .map((word, rank) => ({word, key: normalizeWord(word), prior: 1 - rank / this.words.length, user: false}))
+      .filter((entry) => !known.has(entry.key));
+    this.entries = [...user, ...bundled];
+  }
+
+  has(word: string): boolean {
+    const key = normalizeWord(word);
+    return this.entries.some((entry) => entry.key === key);
+  }
+
+  // Best completions or corrections of the partial word, best first
+  suggest(spelled: SpelledLetter[], limit = 3): Suggestion[] {
+    if (spelled.length === 0) return [];
+    const letters = normalizeLetters(spelled);
+    const budget = maxCost(letters.length);
+
+    const scored: { suggestion: Suggestion; score: number }[] = [];
+    const seen = new Set<string>();
+    for (const entry of this.entries) {
+      if (seen.has(entry.key)) continue;
+      const cost = Math.min(...editDistances(letters, entry.key));
+      if (cost > budget) continue;
+      seen.add(entry.key);
+      scored.push({
+        suggestion: {word: entry.word, cost, user: entry.user},
+        score: cost - PRIOR_WEIGHT * entry.prior,
+      });
+    }
+    return scored
+      .sort((a, b) => a.score - b.score)
+      .slice(0, limit)
+      .map(({suggestion}) => suggestion);
+  }
+
+  // Suggestions for the word at the end of the transcript. The confirmed letters carry their runner-ups;
+  // after a manual edit they no longer line up with the transcript, and the plain letters are used instead.
+  suggestFor(transcript: string, spelled: SpelledLetter[], limit = 3): Suggestion[] {
+    const partial = partialWord(transcript);
+    const letters = spelled.map((s) => s.letter).join("") === partial
+      ? spelled
+      : [...partial].map((letter) => ({letter, alternatives: []}));
+    return this.suggest(letters, limit);
+  }
+
+  // Whole-word correction for a finished word (continuous spelling): the lexicon's spelling of it (accents),
+  // or the closest word. Nobody gets to reject it before it is applied, so only letters the recognizer
+  // itself was unsure about are swapped, plus one slip in a long word. Null when nothing qualifies.
+  correct(spelled: SpelledLetter[]): Suggestion | null {
+    const letters = normalizeLetters(spelled);
+    const typed = spelled.map((s) => s.letter).join("");
+    const key = letters.map((l) => l.letter).join("");
+    const exact = this.entries.find((entry) => entry.key === key);
+    if (exact) return exact.word === typed ? null : {word: exact.word, cost: 0, user: exact.user};
+    if (letters.length < 3) return null;
+    const budget = letters.length >= 6 ? EDIT_COST : ALTERNATIVE_COST;
+
+    let best: { entry: LexiconEntry; cost: number; score: number } | null = null;
+    for (const entry of this.entries) {
+      const distances = editDistances(letters, entry.key);
+      const cost = distances[distances.length - 1];
+      const score = cost - PRIOR_WEIGHT * entry.prior;
+      if (cost <= budget && (!best || score < best.score)) best = {entry, cost, score};
+    }
+    return best && {word: best.entry.word, cost: best.cost, user: best.entry.user};
+  }
+}
+
+const normalizeLetters = (spelled: SpelledLetter[]) => spelled.map(({letter, alternatives}) => ({
+  letter: normalizeWord(letter),
+  alternatives: alternatives.map(normalizeWord),
+}));
+
+// Edit distances between the typed letters and each prefix of `key` (Levenshtein, one row at a time):
+// the minimum is the distance to the closest prefix, the last entry the distance to the whole word
+function editDistances(letters: { letter: string; alternatives: string[] }[], key: string): number[] {
+  let previous = Array.from({length: key.length + 1}, (_, j) => j * EDIT_COST);
+  for (let i = 1; i <= letters.length; i++) {
+    const {letter, alternatives} = letters[i - 1];
+    const current = [i * EDIT_COST];
+    for (let j = 1; j <= key.length; j++) {
+      const target = key[j - 1];
+      const substitution = target === letter ? 0 : alternatives.includes(target) ? ALTERNATIVE_COST : EDIT_COST;
+      current.push(Math.min(previous[j - 1] + substitution, previous[j] + EDIT_COST, current[j - 1] + EDIT_COST));
+    }
+    previous = current;
+  }
+  return previous;
+}
+
+// --- Transcript helpers ---
+
+// Letters after the last space: the word being spelled
+export const partialWord = (transcript: string) => transcript.slice(transcript.lastIndexOf(" ") + 1);
+
+// Replaces the partial word with the accepted suggestion and starts a new word
+export function applySuggestion(transcript: string, word: string): string {
+  return transcript.slice(0, transcript.length - partialWord(transcript).length) + word + " ";
+}
+
+// Continuous spelling ended `word`: replace it by its correction when it was misspelled (or lacks its
+// accents), then start a new word
+export function finishWord(lexicon: Lexicon, transcript: string, word: string, spelled: SpelledLetter[]): string {
+  const lettersMatch = /^\p{L}+$/u.test(word) && spelled.map((s) => s.letter).join("") === word;
+  const correction = lettersMatch && partialWord(transcript) === word ? lexicon.correct(spelled) : null;
+  if (correction) return applySuggestion(transcript, correction.word);
+  return !transcript || transcript.endsWith(" ") ? transcript : transcript + " ";
+}
+
+// --- User dictionary (localStorage) ---
+const STORAGE_KEY = "hand-speak-user-words";
+
+export function loadUserWords(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "[]");
+    if (Array.isArray(stored)) return stored.filter((word): word is string => typeof word === "string");
+  } catch (e) {
+    console.warn("Ignoring stored user words", e);
+  }
+  return [];
+}
+
+export function saveUserWords(words: string[]) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(words));
+  } catch (e) {
+    console.warn("Could not save user words", e);
+  }
+}
@@ -0,0 +1,55 @@
+import {useState} from "react";
+import type {Suggestion} from "./word-prediction";
+
+type WordSuggestionsProps = {
+  suggestions: Suggestion[];
+  partial: string; // word being spelled
+  canAdd: boolean; // partial word isn't in the lexicon yet
+  onAccept: (word: string) => void;
+  userWords: string[];
+  onAddWord: (word: string) => void;
+  onRemoveWord: (word: string) => void;
+};
+
+// Suggestion bar under the transcript: click a word (or thumbs up with the other hand for the first one)
+// to replace the letters spelled so far. The user dictionary holds names and jargon.
+export function WordSuggestions(props: WordSuggestionsProps) {
+  const {suggestions, partial, userWords} = props;
+  const [showWords, setShowWords] = useState(false);
+
+  return (
+    <div className="mt-3">
+      <div className="flex flex-wrap gap-2 items-center min-h-[32px]">
+        {suggestions.map((s, i) => (
+          <button key={s.word} onClick={() => props.onAccept(s.word)}
+                  className={`px-3 py-1 rounded-full text-sm font-mono border ${
+                    i === 0 ? "bg-[#007f8b] text-white border-[#007f8b]" : "bg-gray-100 border-gray-200 hover:bg-gray-200"
+                  }`}
+                  title={s.cost > 0 ? "Correction" : "Completion"}>
+            {i === 0 && "👍 "}{s.word}{s.cost > 0 && <span className="opacity-60">*</span>}
+          </button>
+        ))}
+        {props.canAdd && partial.length >= 2 && (
+          <button onClick={() => props.onAddWord(partial)} className="text-xs text-[#007f8b] hover:underline">
+            + Add “{partial}” to my words
+          </button>
+        )}
+        <button onClick={() => setShowWords((show) => !show)} className="ml-auto text-xs text-gray-400 hover:underline">
+          My words ({userWords.length})
+        </button>
+      </div>
+
+      {showWords && (
+        <ul className="mt-2 flex flex-wrap gap-2">
+          {userWords.length === 0 && <li className="text-gray-300 italic text-sm">No words added yet</li>}
+          {userWords.map((word) => (
+            <li key={word} className="flex items-center gap-1 bg-gray-100 rounded px-2 py-1 text-sm">
+              <span className="font-mono">{word}</span>
+              <button onClick={() => props.onRemoveWord(word)} className="text-red-500 text-xs hover:underline ml-1">✕</button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,30 +1,146 @@
-import {Suspense, use, useEffect, useRef, useState} from "react";
-import {DrawingUtils, FilesetResolver, HandLandmarker, type NormalizedLandmark} from "@mediapipe/tasks-vision";
-import {analyzeHandSign, analyzeWordGesture, type GestureToken} from "~/components/libras-logic"; // Gesture logic
-import {processTranscription} from "~/components/transcription-engine"; // Transcription engine
-
-// --- Resource Initialization ---
-let landmarkerPromise: Promise<HandLandmarker> | null = null;
-
-function getHandLandmarker() {
-  if (!landmarkerPromise) {
-    landmarkerPromise = (async () => {
-      const vision = await FilesetResolver.forVisionTasks(
-        "https://cdn.jsdelivr.net/npm/@mediapipe/tasks-vision@0.10.0/wasm"
-      );
-      return await HandLandmarker.createFromOptions(vision, {
-        baseOptions: {
-          modelAssetPath: `https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task`,
-          delegate: "GPU",
-        },
-        runningMode: "VIDEO",
-        numHands: 1,
-      });
-    })();
-  }
-  return landmarkerPromise;
+import {type ChangeEvent, useEffect, useMemo, useRef, useState} from "react";
+import {Link} from "react-router";
+import {DrawingUtils, HandLandmarker} from "@mediapipe/tasks-vision";
+import type {DetectedHand, DetectionClient, DetectionResult} from "~/components/detection-client"; // Landmarker and gesture logic, in a worker
+import {appendToTranscript, TranscriptionSession} from "~/components/transcription-engine"; // Transcription engine
+import {
+  createRecording,
+  recordFrame,
+  serializeRecording,
+  type SessionRecording
+} from "~/components/session-recording";
+import {featuresOf, loadSignPack, registerSignPack} from "~/components/sign-engine";
+import {
+  addSamples,
+  type ClassifierMode,
+  createModel,
+  handVector,
+  parseModel,
+  removeSign,
+  serializeModel,
+  SignClassifier,
+  type TrainedModel,
+  type TrainingSample
+} from "~/components/sign-classifier";
+import {getActiveModelName, loadModel, saveModel, setActiveModelName} from "~/components/model-store";
+import {TrainingPanel} from "~/components/training-panel";
+import {
+  type CalibrationProfile,
+  CalibrationSession,
+  type CalibrationStep,
+  createProfile,
+  deleteProfile,
+  getActiveProfile,
+  listProfiles,
+  profileThresholds,
+  saveProfile,
+  setActiveProfile
+} from "~/components/calibration";
+import {CalibrationPanel} from "~/components/calibration-panel";
+import type {HistoryFrame} from "~/components/hand-tracker";
+import {DEFAULT_THRESHOLDS, type FeatureThresholds} from "~/components/hand-features";
+import {
+  createMotionTemplate,
+  emptyUserPack,
+  loadUserPack,
+  type MotionTemplateOptions,
+  saveUserPack
+} from "~/components/motion-templates";
+import {MotionTemplatePanel} from "~/components/motion-template-panel";
+import type {SignPack} from "~/components/sign-definitions";
+import type {GestureToken} from "~/components/libras-logic";
+import {
+  applySuggestion,
+  finishWord,
+  Lexicon,
+  loadUserWords,
+  partialWord,
+  saveUserWords,
+  type SpelledLetter
+} from "~/components/word-prediction";
+import {PT_BR_WORDS} from "~/components/lexicon/pt-br";
+import {WordSuggestions} from "~/components/word-suggestions";
+import {
+  applyEditCommand,
+  createHistory,
+  type EditCommand,
+  editTranscript,
+  isEditCommand,
+  type TranscriptHistory
+} from "~/components/transcript-history";
+import {
+  INPUT_MODES,
+  type InputMode,
+  loadInputMode,
+  nextInputMode,
+  saveInputMode
+} from "~/components/input-modes";
+import {
+  type CharTiming,
+  createLog,
+  loadLog,
+  logEvent,
+  saveLog,
+  TRANSCRIPT_EXPORTS,
+  type TranscriptEventKind,
+  type TranscriptExport,
+  type TranscriptLog,
+  updateLogText
+} from "~/components/transcript-log";
+import {VideoCaptioningPanel} from "~/components/video-captioning-panel";
+import {captionVideo, type VideoCaptionOptions} from "~/components/video-captioning";
+import {
+  DEFAULT_SETTINGS,
+  detectionOptions,
+  loadSettings,
+  saveSettings,
+  type Settings,
+  settingsFromUrl,
+  settingsUrl,
+  smoothingOptions,
+  transcriptionOptions,
+  votingOptions
+} from "~/components/settings";
+import {SettingsPanel} from "~/components/settings-panel";
+import {DetectorBoundary} from "~/components/detector-boundary";
+import {closeCamera, openCamera} from "~/components/camera";
+import {
+  type ConfidenceSample,
+  DIAGNOSTICS_WINDOW_MS,
+  DiagnosticsOverlay,
+  DiagnosticsPanel,
+  type PerformanceStats
+} from "~/components/diagnostics-panel";
+import type {FrameDiagnostics} from "~/components/recognition-diagnostics";
+
+// Shown in the hold ring while a control gesture is held
+const COMMAND_SYMBOLS: Record<string, string> = {
+  SPACE: "␣", BACKSPACE: "⌫", CLEAR: "✕", UNDO: "↶", REDO: "↷", ACCEPT: "👍", MODE: "⇄",
+};
+
+// Session event times come from performance.now(); the transcript log keeps wall-clock times
+const wallClock = (time: number) => Date.now() - (performance.now() - time);
+
+function downloadFile(content: string, type: string, filename: string) {
+  const url = URL.createObjectURL(new Blob([content], {type}));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  // Revoked on the next task: Firefox and Safari cancel the download when it goes in the same one
+  setTimeout(() => URL.revokeObjectURL(url));
 }
 
+// Training capture: one sample every few frames so the samples aren't near-identical
+const CAPTURE_SAMPLES = 20;
+const CAPTURE_EVERY_N_FRAMES = 3;
+
+// The hold ring moves in steps of this many percent: finer progress isn't worth a re-render
+const PROGRESS_STEP = 5;
+
+// The debug overlay and confidence plot re-render at most this often
+const DIAGNOSTICS_REFRESH_MS = 200;
+
 export function HandTrackPage() {
   return (
     <div className="min-h-screen bg-gray-50 flex flex-col items-center py-12 font-sans text-[#3d3d3d]">
@@ -32,40 +148,291 @@ export function HandTrackPage() {
         <h1 className="text-[#007f8b] text-4xl font-bold mb-6 text-center">
           LIBRAS Writer
         </h1>
-
-        <Suspense fallback={<div className="text-center mt-20">Loading AI...</div>}>
-          <WebcamWriter/>
-        </Suspense>
+        <nav className="text-center -mt-4 mb-6 text-sm">
+          <Link to="/practice" className="text-[#007f8b] hover:underline">Learn and practise the signs →</Link>
+          <span className="mx-3 text-gray-300">·</span>
+          <Link to="/text-to-libras" className="text-[#007f8b] hover:underline">Text to LIBRAS →</Link>
+        </nav>
+
+        <DetectorBoundary>
+          {(detector) => <WebcamWriter detector={detector}/>}
+        </DetectorBoundary>
       </div>
     </div>
   );
 }
 
-function WebcamWriter() {
-  const handLandmarker = use(getHandLandmarker());
+function WebcamWriter({detector}: { detector: DetectionClient }) {
   const [webcamRunning, setWebcamRunning] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
 
-  // Transcription State
-  const [transcript, setTranscript] = useState("");
+  // Transcription State: every edit is a step in the undo/redo history
+  const [history, setHistory] = useState<TranscriptHistory>(createHistory);
+  const transcript = history.present;
+  const setTranscript = (update: (text: string) => string) => setHistory((h) => editTranscript(h, update(h.present)));
   const [activeLetter, setActiveLetter] = useState<string | null>(null);
   const [lockProgress, setLockProgress] = useState(0);
+  // Runner-up signs close to the one being held, shown so the signer can adjust their hand
+  const [alternatives, setAlternatives] = useState<string[]>([]);
+  // Timestamped log of the session (persisted): confirmed signs, and when each character was written.
+  // A confirmation leaves its timing here for the transcript edit it causes; other edits are timed when they happen.
+  const [log, setLog] = useState<TranscriptLog>(createLog);
+  const timingRef = useRef<CharTiming | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const requestRef = useRef<number>(null);
-  const historyRef = useRef<NormalizedLandmark[][]>([]);
+  // Calibration thresholds in use, for features measured on this side of the worker
+  const thresholdsRef = useRef<FeatureThresholds>(DEFAULT_THRESHOLDS);
+  const sessionRef = useRef<TranscriptionSession>(null);
+  // Active session recording (landmarks per frame), null when not recording
+  const recordingRef = useRef<{ recording: SessionRecording; startedAt: number } | null>(null);
+  const [recording, setRecording] = useState(false);
+  // Learned handshape model (persisted in IndexedDB) and the capture in progress
+  const [model, setModel] = useState<TrainedModel | null>(null);
+  const [classifierMode, setClassifierMode] = useState<ClassifierMode>("fuse");
+  const captureRef = useRef<{ sign: Pick<TrainingSample, "type" | "value">; samples: TrainingSample[]; frame: number } | null>(null);
+  const [capture, setCapture] = useState<{ sign: Pick<TrainingSample, "type" | "value">; progress: number } | null>(null);
+  // Calibration profiles (one per signer) and the calibration in progress
+  const [profiles, setProfiles] = useState<CalibrationProfile[]>([]);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(null);
+  const calibrationRef = useRef<CalibrationSession>(null);
+  const [calibrating, setCalibrating] = useState<{ step: CalibrationStep; index: number; progress: number } | null>(null);
+  // Signer-recorded movement signs and the take being recorded
+  const [userPack, setUserPack] = useState<SignPack>(emptyUserPack);
+  const templateRef = useRef<{ options: MotionTemplateOptions; frames: HistoryFrame[]; hand: DetectedHand | null } | null>(null);
+  const [recordingTemplate, setRecordingTemplate] = useState(false);
+  // Word prediction: letters of the word being spelled (with their runner-ups) and the user's own words
+  const lexiconRef = useRef(new Lexicon(PT_BR_WORDS));
+  const spelledRef = useRef<SpelledLetter[]>([]);
+  const [userWords, setUserWords] = useState<string[]>([]);
+  const suggestionsRef = useRef<string[]>([]);
+  // Letters / numbers / auto, switched by the buttons or by the MODE command (Y held with the other hand)
+  const [inputMode, setInputMode] = useState<InputMode>("auto");
+  const inputModeRef = useRef<InputMode>("auto");
+  const [pendingNumber, setPendingNumber] = useState<string | null>(null);
+  // Recognition settings (persisted, or from the URL): timings, dominant hand, mirroring, tracking, detection.
+  // Typing mode: hold each letter, or spell continuously and let pauses end the words
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const settingsRef = useRef<Settings>(DEFAULT_SETTINGS);
+  const {dominantHand, typingMode} = settings;
+  const changeSettings = (patch: Partial<Settings>) => setSettings((s) => ({...s, ...patch}));
+  // Debug overlay: the worker sends diagnostics with each frame, collected here and shown a few times a second
+  const [debug, setDebug] = useState(false);
+  const debugRef = useRef(false);
+  const diagnosticsRef = useRef<{ samples: ConfidenceSample[]; resultTimes: number[]; shownAt: number }>(
+    {samples: [], resultTimes: [], shownAt: 0}
+  );
+  const [diagnostics, setDiagnostics] = useState<{
+    frame: FrameDiagnostics | null;
+    samples: ConfidenceSample[];
+    stats: PerformanceStats
+  } | null>(null);
   // const lastPredictionTime = useRef<number>(0);
 
   useEffect(() => {
-    return () => stopCamera();
+    detector.configure({dominantHand});
+  }, [dominantHand]);
+
+  useEffect(() => {
+    detector.configure({classifierMode});
+  }, [classifierMode]);
+
+  useEffect(() => {
+    setUserPack(loadUserPack());
+  }, []);
+
+  useEffect(() => {
+    registerSignPack(userPack); // for captioning videos, which runs here
+    detector.registerPack(userPack);
+    saveUserPack(userPack);
+  }, [userPack]);
+
+  // Declared before the restore below, so the empty first render doesn't overwrite the stored text
+  useEffect(() => {
+    const now = Date.now();
+    setLog((l) => updateLogText(l, transcript, timingRef.current ?? {start: now, end: now, confidence: 1}));
+    timingRef.current = null;
+  }, [transcript]);
+
+  useEffect(() => {
+    setUserWords(loadUserWords());
+    setInputMode(loadInputMode());
+    const saved = loadLog();
+    setLog(saved);
+    setHistory(createHistory(saved.text));
+  }, []);
+
+  useEffect(() => {
+    saveLog(log);
+  }, [log]);
+
+  useEffect(() => {
+    inputModeRef.current = inputMode;
+    detector.configure({inputMode});
+    sessionRef.current?.setOptions({composeNumbers: inputMode === "numbers"});
+    setPendingNumber(null);
+    saveInputMode(inputMode);
+  }, [inputMode]);
+
+  // Settings in the URL (a shared link) win over the stored ones, and are then stored like any change
+  useEffect(() => {
+    const fromUrl = settingsFromUrl(location.search);
+    setSettings({...loadSettings(), ...fromUrl});
+    if (Object.keys(fromUrl).length > 0) window.history.replaceState(window.history.state, "", location.pathname);
+  }, []);
+
+  useEffect(() => {
+    settingsRef.current = settings;
+    sessionRef.current?.setOptions(transcriptionOptions(settings));
+    saveSettings(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    detector.configure({smoothing: smoothingOptions(settings)});
+  }, [settings.smoothing, settings.smoothingMinCutoff, settings.smoothingBeta]);
+
+  useEffect(() => {
+    detector.configure({voting: votingOptions(settings), historyMs: settings.historyMs});
+  }, [settings.votingWindowMs, settings.historyMs]);
+
+  useEffect(() => {
+    detector.configure({detection: detectionOptions(settings)});
+  }, [settings.minHandDetectionConfidence, settings.minHandPresenceConfidence, settings.minTrackingConfidence]);
+
+  useEffect(() => {
+    detector.configure({bodyTracking: settings.bodyTracking});
+  }, [settings.bodyTracking]);
+
+  useEffect(() => {
+    debugRef.current = debug;
+    detector.configure({debug});
+    diagnosticsRef.current = {samples: [], resultTimes: [], shownAt: 0};
+    setDiagnostics(null);
+  }, [debug]);
+
+  useEffect(() => {
+    lexiconRef.current.setUserWords(userWords);
+    saveUserWords(userWords);
+  }, [userWords]);
+
+  useEffect(() => {
+    setProfiles(listProfiles());
+    setActiveProfileId(getActiveProfile()?.id ?? null);
+  }, []);
+
+  useEffect(() => {
+    const profile = profiles.find((p) => p.id === activeProfileId) ?? null;
+    thresholdsRef.current = profileThresholds(profile);
+    detector.configure({thresholds: thresholdsRef.current});
+  }, [profiles, activeProfileId]);
+
+  // Restore the active model once, then keep the recognizer and IndexedDB in sync with it
+  useEffect(() => {
+    (async () => {
+      const name = await getActiveModelName();
+      return (name && await loadModel(name)) || createModel("My signs");
+    })()
+      .catch(() => createModel("My signs")) // IndexedDB unavailable (private mode): keep the model in memory
+      .then(setModel);
+  }, []);
+
+  useEffect(() => {
+    if (!model) return;
+    detector.configure({model});
+    saveModel(model)
+      .then(() => setActiveModelName(model.name))
+      .catch((e) => console.warn("Could not save the trained model", e));
+  }, [model]);
+
+  useEffect(() => {
+    // One transcription session per mount, so hold timers never leak between pages; the worker is shared,
+    // so it forgets the hands it was tracking
+    detector.reset();
+    const session = new TranscriptionSession({
+      ...transcriptionOptions(settingsRef.current),
+      composeNumbers: inputModeRef.current === "numbers",
+    });
+    sessionRef.current = session;
+
+    // Every confirmation goes into the log, and times the text it is about to write
+    const record = (
+      kind: TranscriptEventKind, value: string, start: number, time: number,
+      token?: GestureToken, alternatives: GestureToken[] = []
+    ) => {
+      const timing = {start: wallClock(start), end: wallClock(time), confidence: token?.confidence ?? 1};
+      timingRef.current = timing;
+      setLog((l) => logEvent(l, {
+        kind, value, ...timing, confidence: token?.confidence,
+        ...(alternatives.length > 0 && {alternatives: alternatives.map((alt) => String(alt.value))}),
+      }));
+    };
+
+    // Progress arrives every frame; state only changes (and the page re-renders) when the ring visibly moves,
+    // or the letter or its alternatives change
+    const unsubscribe = [
+      detector.on("result", handleDetection),
+      detector.on("error", ({request, message}) =>
+        console.warn(request === "frame" ? "Hand detection failed" : `The detection worker failed on "${request}"`, message)),
+      detector.on("bodyUnavailable", ({message}) => console.warn("Body tracking is unavailable", message)),
+      session.on("progress", ({letter, progress, alternatives}) => {
+        const names = alternatives.map((alt) => String(alt.value));
+        setActiveLetter(letter);
+        setLockProgress(Math.round(progress / PROGRESS_STEP) * PROGRESS_STEP);
+        setAlternatives((prev) => (prev.join() === names.join() ? prev : names));
+      }),
+      session.on("letterConfirmed", ({letter, token, start, time, alternatives}) => {
+        record("letter", letter, start, time, token, alternatives);
+        const letterAlternatives = alternatives.filter((alt) => alt.type === "LETTER").map((alt) => String(alt.value));
+        spelledRef.current = [...spelledRef.current, {letter, alternatives: letterAlternatives}];
+        setPendingNumber(session.pendingNumber);
+        setTranscript((prev) => appendToTranscript(prev, letter, "letter"));
+        // Optional: Add haptic feedback here
+        if (navigator.vibrate) navigator.vibrate(50);
+      }),
+      // A composed number is a word of its own: close it with a space
+      session.on("numberConfirmed", ({value, start, time}) => {
+        record("number", value, start, time);
+        spelledRef.current = [];
+        setPendingNumber(null);
+        setTranscript((prev) => (prev.endsWith(" ") ? prev : prev + " "));
+      }),
+      // Continuous typing: the word is over; fix it against the lexicon if it was misspelled, then close it
+      session.on("wordEnded", ({word}) => {
+        const spelled = spelledRef.current;
+        spelledRef.current = [];
+        setTranscript((prev) => finishWord(lexiconRef.current, prev, word, spelled));
+      }),
+      session.on("wordConfirmed", ({word, token, start, time}) => {
+        record("word", word, start, time, token);
+        spelledRef.current = [];
+        setTranscript((prev) => appendToTranscript(prev, word, "word"));
+        if (navigator.vibrate) navigator.vibrate(80);
+      }),
+      // Control gestures do what the buttons do
+      session.on("commandConfirmed", ({command, token, start, time}) => {
+        record("command", command, start, time, token);
+        if (command === "ACCEPT") {
+          if (suggestionsRef.current.length > 0) acceptSuggestion(suggestionsRef.current[0]);
+        } else if (command === "MODE") {
+          setInputMode(nextInputMode(inputModeRef.current));
+        } else if (isEditCommand(command)) {
+          handleEditCommand(command);
+        }
+        if (navigator.vibrate) navigator.vibrate([30, 30, 30]);
+      }),
+    ];
+
+    return () => {
+      unsubscribe.forEach((off) => off());
+      sessionRef.current = null;
+      stopCamera();
+    };
   }, []);
 
   function stopCamera() {
     if (requestRef.current) cancelAnimationFrame(requestRef.current);
-    if (videoRef.current && videoRef.current.srcObject) {
-      (videoRef.current.srcObject as MediaStream).getTracks().forEach(t => t.stop());
-      videoRef.current.srcObject = null;
-    }
+    closeCamera(videoRef.current);
   }
 
   async function toggleWebcam() {
@@ -73,8 +440,15 @@ function WebcamWriter() {
       setWebcamRunning(false);
       stopCamera();
     } else {
+      setCameraError(null);
+      let stream: MediaStream;
+      try {
+        stream = await openCamera();
+      } catch (e) {
+        setCameraError((e as Error).message);
+        return;
+      }
       setWebcamRunning(true);
-      const stream = await navigator.mediaDevices.getUserMedia({video: {width: 1280, height: 720}});
       if (videoRef.current) {
         videoRef.current.srcObject = stream;
         videoRef.current.addEventListener("loadeddata", predictWebcam);
@@ -82,85 +456,308 @@ function WebcamWriter() {
     }
   }
 
-  async function predictWebcam() {
+  // Hands a frame to the worker on every animation frame; frames arriving while it is busy are skipped
+  function predictWebcam() {
+    const video = videoRef.current;
+    if (!video?.srcObject) return;
+    detector.detect(video, performance.now()).catch((e) => console.warn("Could not grab a video frame", e));
+    requestRef.current = requestAnimationFrame(predictWebcam);
+  }
+
+  // One processed frame back from the worker
+  function handleDetection(result: DetectionResult) {
     const video = videoRef.current;
     const canvas = canvasRef.current;
-    if (!video || !canvas) return;
+    if (!video?.srcObject || !canvas) return;
 
     if (video.videoWidth > 0) {
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
     }
 
-    const startTime = performance.now();
-    const result = handLandmarker.detectForVideo(video, startTime);
+    const startTime = result.time;
+    if (recordingRef.current) {
+      const {recording, startedAt} = recordingRef.current;
+      recordFrame(recording, startTime - startedAt, result);
+    }
 
     const ctx = canvas.getContext("2d");
     if (ctx) {
       ctx.clearRect(0, 0, canvas.width, canvas.height);
       const drawingUtils = new DrawingUtils(ctx);
 
-      // 1. Check for Hand
-      let detectedToken: GestureToken | null = null;
-
-      if (result.landmarks && result.landmarks.length > 0) {
-        const landmarks = result.landmarks[0];
-        const handedness = result.handedness[0][0];
-
-        // Draw Skeleton
-        drawingUtils.drawConnectors(landmarks, HandLandmarker.HAND_CONNECTIONS, {
-          color: "rgba(0,255,0,0.5)",
-          lineWidth: 2
-        });
-        drawingUtils.drawLandmarks(landmarks, {color: "#FF0000", lineWidth: 1});
-
-        // Maintain a short history of landmarks for motion-based word gestures
-        const hist = historyRef.current;
-        hist.push(landmarks);
-        if (hist.length > 24) hist.shift(); // ~400ms at 60fps
-
-        // 1) Try direct WORD gesture
-        const wordToken = analyzeWordGesture(hist, handedness);
-        if (wordToken) {
-          detectedToken = wordToken;
-        } else {
-          // 2) Fallback to LETTER detection for current frame
-          const letterToken = analyzeHandSign(landmarks, handedness);
-          if (letterToken) detectedToken = letterToken;
-        }
-      }
+      // 1. Both hands tracked and recognised in the worker: two-handed signs, word gestures, then letters/numbers
+      const {hands, token, alternatives, speed} = result;
 
-      // 2. Process Transcription (Hold-to-Type Logic)
-      // We update state 60fps for smooth progress bar, but logic handles timing
-      const {currentLetter, progress, confirmedLetter, confirmedWord} = processTranscription(detectedToken);
+      // Calibration: measure the signing hand for the current reference handshape
+      if (calibrationRef.current && hands.dominant) {
+        calibrationRef.current.push(featuresOf(hands.dominant.landmarks, hands.dominant.handedness));
+      }
 
-      setActiveLetter(currentLetter);
-      setLockProgress(progress);
+      // Movement template: keep every frame of the signing hand until stopped, or until it fills the movement
+      // history (a longer take could never be matched)
+      const take = templateRef.current;
+      if (take && hands.dominant) {
+        take.frames.push({t: startTime, landmarks: hands.dominant.landmarks});
+        take.hand = hands.dominant;
+        if (startTime - take.frames[0].t >= settingsRef.current.historyMs) stopTemplate();
+      }
 
-      // 3. If confirmed, append to text
-      if (confirmedLetter) {
-        setTranscript((prev) => prev + confirmedLetter);
-        // Optional: Add haptic feedback here
-        if (navigator.vibrate) navigator.vibrate(50);
+      // Training capture: sample the signing hand while it is in view
+      const current = captureRef.current;
+      if (current && hands.dominant && current.frame++ % CAPTURE_EVERY_N_FRAMES === 0) {
+        const {landmarks, handedness} = hands.dominant;
+        const features = featuresOf(landmarks, handedness, thresholdsRef.current);
+        current.samples.push({...current.sign, vector: handVector(features)});
+        setCapture({sign: current.sign, progress: (100 * current.samples.length) / CAPTURE_SAMPLES});
+        if (current.samples.length >= CAPTURE_SAMPLES) {
+          captureRef.current = null;
+          setCapture(null);
+          setModel((m) => m && addSamples(m, current.samples));
+        }
       }
-      if (confirmedWord) {
-        setTranscript((prev) => {
-          const needsSpace = prev.length > 0 && !prev.endsWith(" ");
-          return (needsSpace ? prev + " " : prev) + confirmedWord + " ";
-        });
-        if (navigator.vibrate) navigator.vibrate(80);
+
+      // Draw Skeletons (signing hand in green, the other hand in blue)
+      const drawHand = (hand: DetectedHand | null, color: string) => {
+        if (!hand) return;
+        drawingUtils.drawConnectors(hand.landmarks, HandLandmarker.HAND_CONNECTIONS, {color, lineWidth: 2});
+        drawingUtils.drawLandmarks(hand.landmarks, {color: "#FF0000", lineWidth: 1});
+      };
+      drawHand(hands.dominant, "rgba(0,255,0,0.5)");
+      drawHand(hands.nonDominant, "rgba(0,128,255,0.5)");
+      if (debugRef.current) {
+        drawDiagnostics(ctx, result);
+        collectDiagnostics(result);
       }
+
+      // 2. Process Transcription (Hold-to-Type Logic); confirmations and commands arrive as session events
+      sessionRef.current?.push(token, alternatives, hands.dominant ? {speed} : null);
+    }
+  }
+
+  // The key distances between the signing hand's landmarks (green when touching), the movement window's trail
+  // and the body anchors locations are measured from
+  function drawDiagnostics(ctx: CanvasRenderingContext2D, {hands, diagnostics, body}: DetectionResult) {
+    if (!diagnostics || !hands.dominant) return;
+    const {width, height} = ctx.canvas;
+    const landmarks = hands.dominant.landmarks;
+    ctx.save();
+    // Unlabelled: the canvas is mirrored with the video; the overlay names the place the hand is at
+    ctx.fillStyle = "rgba(255,0,255,0.8)";
+    for (const [x, y] of body ? [...Object.values(body.right), ...Object.values(body.left)] : []) {
+      ctx.beginPath();
+      ctx.arc(x * width, y * height, 4, 0, 2 * Math.PI);
+      ctx.fill();
+    }
+    ctx.lineWidth = 2;
+    for (const {landmarks: between, value, threshold} of diagnostics.distances) {
+      if (!between) continue;
+      const [a, b] = between.map((i) => landmarks[i]);
+      ctx.strokeStyle = value < threshold ? "rgba(0,255,0,0.9)" : "rgba(255,255,255,0.4)";
+      ctx.beginPath();
+      ctx.moveTo(a.x * width, a.y * height);
+      ctx.lineTo(b.x * width, b.y * height);
+      ctx.stroke();
+    }
+    ctx.strokeStyle = "rgba(255,200,0,0.8)";
+    ctx.beginPath();
+    diagnostics.motion.trail.forEach(([x, y], i) => (i === 0 ? ctx.moveTo(x * width, y * height) : ctx.lineTo(x * width, y * height)));
+    ctx.stroke();
+    ctx.restore();
+  }
+
+  // Confidence samples and frame rate for the debug panel; state only changes every DIAGNOSTICS_REFRESH_MS
+  function collectDiagnostics(result: DetectionResult) {
+    const now = performance.now();
+    const collected = diagnosticsRef.current;
+    collected.resultTimes = [...collected.resultTimes.filter((t) => t > now - 1000), now];
+    collected.samples = [
+      ...collected.samples.filter((s) => s.t > result.time - DIAGNOSTICS_WINDOW_MS),
+      {
+        t: result.time,
+        value: result.token && String(result.token.value),
+        confidence: result.token?.confidence ?? 0,
+        raw: result.diagnostics?.matched[0]?.token.confidence ?? 0,
+      },
+    ];
+    if (now - collected.shownAt < DIAGNOSTICS_REFRESH_MS) return;
+    collected.shownAt = now;
+    setDiagnostics({
+      frame: result.diagnostics,
+      samples: collected.samples,
+      stats: {fps: collected.resultTimes.length, latency: now - result.time, ...result.timings},
+    });
+  }
+
+  // Start capturing landmarks, or stop and download the capture as a replayable JSONL file
+  function toggleRecording() {
+    if (!recordingRef.current) {
+      recordingRef.current = {recording: createRecording({dominantHand, thresholds: thresholdsRef.current, inputMode, typingMode}), startedAt: performance.now()};
+      setRecording(true);
+      return;
+    }
+
+    const {recording} = recordingRef.current;
+    recordingRef.current = null;
+    setRecording(false);
+    if (recording.frames.length === 0) return;
+
+    downloadFile(serializeRecording(recording), "application/x-ndjson",
+      `hand-speak-session-${recording.header.createdAt.replace(/[:.]/g, "-")}.jsonl`);
+  }
+
+  function startCapture(sign: Pick<TrainingSample, "type" | "value">) {
+    captureRef.current = {sign, samples: [], frame: 0};
+    setCapture({sign, progress: 0});
+  }
+
+  function startTemplate(options: MotionTemplateOptions) {
+    templateRef.current = {options, frames: [], hand: null};
+    setRecordingTemplate(true);
+  }
+
+  function stopTemplate() {
+    const take = templateRef.current;
+    templateRef.current = null;
+    setRecordingTemplate(false);
+    if (!take?.hand) return;
+
+    const sign = createMotionTemplate(take.frames, take.hand.handedness, take.options);
+    if (!sign) {
+      alert("No movement detected, try again with a clearer movement");
+      return;
+    }
+    setUserPack((pack) => ({...pack, signs: [...pack.signs, sign]}));
+  }
+
+  function exportUserPack() {
+    downloadFile(JSON.stringify(userPack, null, 2), "application/json", "hand-speak-user-signs.json");
+  }
+
+  function startCalibration(name: string) {
+    const calibration = new CalibrationSession();
+    calibration.on("progress", setCalibrating);
+    calibration.on("complete", (result) => {
+      const profile = createProfile(name, result);
+      saveProfile(profile);
+      setProfiles(listProfiles());
+      setActiveProfileId(profile.id);
+      calibrationRef.current = null;
+      setCalibrating(null);
+    });
+    calibrationRef.current = calibration;
+    setCalibrating({step: calibration.step!, index: 0, progress: 0});
+  }
+
+  function cancelCalibration() {
+    calibrationRef.current = null;
+    setCalibrating(null);
+  }
+
+  function selectProfile(id: string | null) {
+    setActiveProfile(id);
+    setActiveProfileId(id);
+  }
+
+  function removeProfile(id: string) {
+    deleteProfile(id);
+    setProfiles(listProfiles());
+    setActiveProfileId(getActiveProfile()?.id ?? null);
+  }
+
+  function exportModel() {
+    if (!model) return;
+    downloadFile(serializeModel(model), "application/json", `hand-speak-model-${model.name.replace(/\W+/g, "-")}.json`);
+  }
+
+  async function importModel(file: File) {
+    try {
+      setModel(parseModel(await file.text()));
+    } catch (e) {
+      alert(`Could not import model: ${(e as Error).message}`);
     }
+  }
 
-    if (video.srcObject) {
-      requestRef.current = requestAnimationFrame(predictWebcam);
+  // Register an extra JSON sign pack (see the README for the format); it is used from the next frame on
+  async function handleSignPackFile(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+    try {
+      const pack = await loadSignPack(file);
+      detector.registerPack(pack);
+      alert(`Loaded sign pack "${pack.name}" (${pack.signs.length} signs)`);
+    } catch (e) {
+      alert(`Could not load sign pack: ${(e as Error).message}`);
     }
   }
 
-  // Helper to handle Space/Backspace
-  const handleSpace = () => setTranscript(t => t + " ");
-  const handleBackspace = () => setTranscript(t => t.slice(0, -1));
-  const handleClear = () => setTranscript("");
+  // Editing from the buttons or the control gestures; word prediction and number composition follow along
+  function handleEditCommand(command: EditCommand) {
+    const session = sessionRef.current;
+    switch (command) {
+      case "SPACE":
+        spelledRef.current = [];
+        if (session?.pendingNumber != null) {
+          session.flushNumber(); // closes the number with a space
+          return;
+        }
+        break;
+      case "BACKSPACE":
+      case "UNDO":
+        spelledRef.current = spelledRef.current.slice(0, -1);
+        session?.dropDigit();
+        setPendingNumber(session?.pendingNumber ?? null);
+        break;
+      case "CLEAR":
+        spelledRef.current = [];
+        session?.reset();
+        setPendingNumber(null);
+        break;
+    }
+    setHistory((h) => applyEditCommand(h, command));
+  }
+
+  function exportTranscript({extension, type, build}: TranscriptExport) {
+    downloadFile(build(log), type, `hand-speak-transcript-${log.startedAt.replace(/[:.]/g, "-")}.${extension}`);
+  }
+
+  // Caption a video file with the settings in use on the page
+  function captionFile(url: string, options: VideoCaptionOptions) {
+    const classifier = model && classifierMode !== "rules" ? new SignClassifier(model) : null;
+    return captionVideo(url, {
+      dominantHand, thresholds: thresholdsRef.current, inputMode, typingMode,
+      transcription: transcriptionOptions(settings), detection: detectionOptions(settings),
+      bodyTracking: settings.bodyTracking,
+    }, classifier, options);
+  }
+
+  // Start over with an empty transcript and log (Clear All only empties the text, and can be undone)
+  function newSession() {
+    if (log.events.length > 0 && !confirm("Start a new session? Export the transcript first to keep it.")) return;
+    spelledRef.current = [];
+    sessionRef.current?.reset();
+    setPendingNumber(null);
+    setHistory(createHistory());
+    setLog(createLog());
+  }
+
+  // Suggestions for the word being spelled
+  const partial = partialWord(transcript);
+  const suggestions = useMemo(
+    () => lexiconRef.current.suggestFor(partial, spelledRef.current),
+    [partial, userWords]
+  );
+
+  useEffect(() => {
+    suggestionsRef.current = suggestions.map((s) => s.word);
+  }, [suggestions]);
+
+  function acceptSuggestion(word: string) {
+    spelledRef.current = [];
+    setTranscript((prev) => applySuggestion(prev, word));
+    if (navigator.vibrate) navigator.vibrate(80);
+  }
 
   return (
     <div className="flex flex-col items-center w-full gap-6">
@@ -174,13 +771,16 @@ function WebcamWriter() {
                     className="bg-[#007f8b] text-white px-6 py-3 rounded-full font-bold hover:scale-105 transition">
               Start Camera
             </button>
+            {cameraError && <p className="mt-4 max-w-sm text-center text-sm text-red-300">{cameraError}</p>}
           </div>
         )}
 
         <video ref={videoRef} autoPlay playsInline muted
-               className="absolute inset-0 w-full h-full object-cover transform -scale-x-100"/>
+               className={`absolute inset-0 w-full h-full object-cover ${settings.mirrorVideo ? "transform -scale-x-100" : ""}`}/>
         <canvas ref={canvasRef}
-                className="absolute inset-0 w-full h-full object-cover transform -scale-x-100 pointer-events-none"/>
+                className={`absolute inset-0 w-full h-full object-cover pointer-events-none ${settings.mirrorVideo ? "transform -scale-x-100" : ""}`}/>
+
+        {webcamRunning && debug && diagnostics && <DiagnosticsOverlay frame={diagnostics.frame} stats={diagnostics.stats}/>}
 
         {/* --- OVERLAY: PROGRESS RING --- */}
         {webcamRunning && activeLetter && (
@@ -198,22 +798,51 @@ function WebcamWriter() {
                   className="transition-all duration-75 ease-linear"
                 />
               </svg>
-              <span className="text-4xl font-bold text-white">{activeLetter}</span>
+              <span className="text-4xl font-bold text-white">{COMMAND_SYMBOLS[activeLetter] ?? activeLetter}</span>
             </div>
-            <p className="text-white/80 text-xs text-center mt-2 font-semibold">HOLD TO TYPE</p>
+            {alternatives.length > 0 ? (
+              <p className="text-yellow-300 text-xs text-center mt-2 font-semibold">
+                {[activeLetter, ...alternatives].join(" / ")}?
+              </p>
+            ) : (
+              <p className="text-white/80 text-xs text-center mt-2 font-semibold">
+                {typingMode === "continuous" ? "SPELLING" : "HOLD TO TYPE"}
+              </p>
+            )}
           </div>
         )}
       </div>
+      {detector.delegate === "CPU" && (
+        <p className="-mt-4 text-xs text-gray-400">
+          Hand tracking is running on the CPU because WebGL isn't available, so it may be slower.
+        </p>
+      )}
 
       {/* --- TRANSCRIPTION BOARD --- */}
       <div className="w-full max-w-[640px] bg-white rounded-xl shadow-lg p-6 border border-gray-200">
         <div className="flex justify-between items-end mb-2">
           <h3 className="text-gray-500 text-sm font-bold uppercase tracking-wider">Transcription</h3>
           <div className="flex gap-2">
-            <button onClick={handleSpace}
+            <div className="flex rounded overflow-hidden border border-gray-200" title="Input mode (or hold Y with the other hand)">
+              {INPUT_MODES.map((mode) => (
+                <button key={mode.value} onClick={() => setInputMode(mode.value)}
+                        className={`px-2 py-1 text-sm font-medium ${
+                          inputMode === mode.value ? "bg-[#007f8b] text-white" : "bg-gray-100 hover:bg-gray-200"
+                        }`}>
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            <button onClick={() => handleEditCommand("UNDO")} disabled={history.past.length === 0} title="Undo"
+                    className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium disabled:opacity-40">↶
+            </button>
+            <button onClick={() => handleEditCommand("REDO")} disabled={history.future.length === 0} title="Redo"
+                    className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium disabled:opacity-40">↷
+            </button>
+            <button onClick={() => handleEditCommand("SPACE")}
                     className="px-3 py-1 bg-gray-100 hover:bg-gray-200 rounded text-sm font-medium">SPACE
             </button>
-            <button onClick={handleBackspace}
+            <button onClick={() => handleEditCommand("BACKSPACE")}
                     className="px-3 py-1 bg-gray-100 hover:bg-red-100 text-red-600 rounded text-sm font-medium">⌫
             </button>
           </div>
@@ -225,12 +854,94 @@ function WebcamWriter() {
           <span className="w-2 h-8 bg-[#007f8b] ml-1 animate-pulse"></span>
         </div>
 
+        {inputMode === "numbers" ? (
+          <p className="mt-3 min-h-[32px] text-sm text-gray-500">
+            {pendingNumber !== null
+              ? <>Number: <span className="font-mono font-bold text-gray-800">{pendingNumber}</span> (pause or SPACE to finish)</>
+              : "Sign digits one after another to write a number"}
+          </p>
+        ) : (
+          <WordSuggestions suggestions={suggestions} partial={partial} canAdd={!lexiconRef.current.has(partial)}
+                           onAccept={acceptSuggestion} userWords={userWords}
+                           onAddWord={(word) => setUserWords((words) => words.includes(word) ? words : [...words, word])}
+                           onRemoveWord={(word) => setUserWords((words) => words.filter((w) => w !== word))}/>
+        )}
+
         <div className="mt-4 flex justify-between">
-          <button onClick={handleClear} className="text-red-500 text-sm hover:underline">Clear All</button>
-          <span className="text-xs text-gray-400">Hold a sign for 1.2s to confirm</span>
+          <div className="flex flex-wrap gap-x-4 gap-y-1">
+            <button onClick={() => handleEditCommand("CLEAR")} className="text-red-500 text-sm hover:underline">Clear All</button>
+            <button onClick={() => changeSettings({dominantHand: dominantHand === "right" ? "left" : "right"})}
+                    className="text-sm text-gray-500 hover:underline">
+              {dominantHand === "right" ? "Right-handed" : "Left-handed"}
+            </button>
+            <button onClick={() => changeSettings({typingMode: typingMode === "hold" ? "continuous" : "hold"})}
+                    className="text-sm text-gray-500 hover:underline"
+                    title="Hold: hold each letter until it is typed. Continuous: spell fluently, pause or drop the hand to end a word">
+              {typingMode === "hold" ? "Hold to type" : "Continuous spelling"}
+            </button>
+            <button onClick={toggleRecording} disabled={!webcamRunning}
+                    className="text-sm hover:underline disabled:opacity-40 disabled:no-underline text-[#007f8b]">
+              {recording ? "● Stop & Save Recording" : "Record Session"}
+            </button>
+            <button onClick={() => setDebug((on) => !on)} className="text-sm text-gray-500 hover:underline"
+                    title="Show what the recognizer measures on each frame">
+              {debug ? "Hide Debug" : "Debug"}
+            </button>
+            <label className="text-sm text-gray-500 hover:underline cursor-pointer">
+              Load Sign Pack
+              <input type="file" accept=".json,application/json" className="hidden" onChange={handleSignPackFile}/>
+            </label>
+          </div>
+          <span className="text-xs text-gray-400">
+            {typingMode === "hold"
+              ? `Hold a sign for ${settings.holdDuration / 1000}s to confirm`
+              : `Pause ${settings.wordPause / 1000}s or drop the hand to end a word`}
+          </span>
+        </div>
+
+        <div className="mt-3 flex gap-3 items-center text-xs text-gray-500">
+          <span>Export:</span>
+          {TRANSCRIPT_EXPORTS.map((format) => (
+            <button key={format.extension} onClick={() => exportTranscript(format)} disabled={!transcript.trim()}
+                    className="text-[#007f8b] hover:underline disabled:opacity-40 disabled:no-underline">
+              {format.label}
+            </button>
+          ))}
+          <button onClick={newSession} className="ml-auto hover:underline">New Session</button>
         </div>
       </div>
 
+      {/* --- DIAGNOSTICS --- */}
+      {debug && diagnostics && (
+        <DiagnosticsPanel samples={diagnostics.samples} stats={diagnostics.stats} highConfidence={settings.highConfidence}/>
+      )}
+
+      {/* --- SETTINGS --- */}
+      <SettingsPanel settings={settings} onChange={changeSettings} onReset={() => setSettings(DEFAULT_SETTINGS)}
+                     shareUrl={typeof location === "undefined" ? "" : settingsUrl(settings, location.href)}/>
+
+      {/* --- VIDEO CAPTIONING --- */}
+      <VideoCaptioningPanel onCaption={captionFile} onDownload={downloadFile}/>
+
+      {/* --- CALIBRATION --- */}
+      <CalibrationPanel profiles={profiles} activeId={activeProfileId} onSelect={selectProfile}
+                        onDelete={removeProfile} calibrating={calibrating} canCalibrate={webcamRunning}
+                        onStart={startCalibration} onCancel={cancelCalibration}/>
+
+      {/* --- MOVEMENT TEMPLATES --- */}
+      <MotionTemplatePanel pack={userPack} recording={recordingTemplate} canRecord={webcamRunning}
+                           onRecord={startTemplate} onStop={stopTemplate}
+                           onRemove={(id) => setUserPack((pack) => ({...pack, signs: pack.signs.filter((s) => s.id !== id)}))}
+                           onExport={exportUserPack}/>
+
+      {/* --- TRAINING --- */}
+      {model && (
+        <TrainingPanel model={model} mode={classifierMode} onModeChange={setClassifierMode}
+                       capture={capture} canCapture={webcamRunning} onCapture={startCapture}
+                       onRemove={(sign) => setModel((m) => m && removeSign(m, sign))}
+                       onExport={exportModel} onImport={importModel}/>
+      )}
+
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,423 @@
+import {useEffect, useRef, useState} from "react";
+import {Link} from "react-router";
+import {DrawingUtils, HandLandmarker} from "@mediapipe/tasks-vision";
+import type {DetectedHand, DetectionClient, DetectionResult} from "~/components/detection-client";
+import {DetectorBoundary} from "~/components/detector-boundary";
+import {closeCamera, openCamera} from "~/components/camera";
+import {explainSign, registerSignPack} from "~/components/sign-engine";
+import {getActiveProfile, profileThresholds} from "~/components/calibration";
+import {loadUserPack} from "~/components/motion-templates";
+import type {InputMode} from "~/components/input-modes";
+import {
+  detectionOptions,
+  loadSettings,
+  smoothingOptions,
+  votingOptions
+} from "~/components/settings";
+import {
+  accuracyOf,
+  type AttemptGrade,
+  averageMsOf,
+  loadProgress,
+  pickNextSign,
+  PRACTICE_DECKS,
+  PRACTICE_HOLD_MS,
+  PracticeAttempt,
+  type PracticeDeck,
+  type PracticeProgress,
+  type PracticeSign,
+  practiceSigns,
+  recordAttempt,
+  saveProgress
+} from "~/components/practice";
+import {SignReference} from "~/components/sign-reference";
+
+// Each deck is recognised in the input mode that keeps it unambiguous (D is not 1 when drilling letters)
+const DECK_INPUT_MODES: Record<PracticeDeck, InputMode> = {letters: "letters", numbers: "numbers", words: "auto"};
+
+const FEEDBACK_MS = 1200; // how long "Correct" / "Missed" shows before the next sign
+const HINT_REFRESH_MS = 300; // hints would flicker if they changed every frame
+const MAX_HINTS = 2;
+// Signs made at a place on the body aren't timed while the body is out of view
+const BODY_HINTS = ["Show your face and shoulders to the camera"];
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+
+export function PracticePage() {
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col items-center py-12 font-sans text-[#3d3d3d]">
+      <div className="max-w-3xl w-full px-4">
+        <h1 className="text-[#007f8b] text-4xl font-bold mb-6 text-center">
+          LIBRAS Practice
+        </h1>
+        <nav className="text-center -mt-4 mb-6 text-sm">
+          <Link to="/" className="text-[#007f8b] hover:underline">← Back to the writer</Link>
+        </nav>
+
+        <DetectorBoundary>
+          {(detector) => <Practice detector={detector}/>}
+        </DetectorBoundary>
+      </div>
+    </div>
+  );
+}
+
+type Feedback = { sign: PracticeSign; correct: boolean; ms: number };
+
+// Only rendered in the browser (the detector boundary shows its loading state on the server), so storage is read right away
+function Practice({detector}: { detector: DetectionClient }) {
+  const [settings] = useState(loadSettings);
+  const [webcamRunning, setWebcamRunning] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+
+  const [deck, setDeck] = useState<PracticeDeck>("letters");
+  const [signs, setSigns] = useState<PracticeSign[]>([]);
+  // Off when body tracking is turned off in the settings or the pose landmarker failed to load
+  const [bodyTracking, setBodyTracking] = useState(settings.bodyTracking);
+  const [omitted, setOmitted] = useState(0); // signs of the deck left out because they need the body
+  const signsRef = useRef<PracticeSign[]>([]);
+  const [progress, setProgress] = useState<PracticeProgress>(loadProgress);
+  const progressRef = useRef(progress);
+  const [target, setTarget] = useState<PracticeSign | null>(null);
+  const targetRef = useRef<PracticeSign | null>(null);
+  // Timing starts with the first camera frame the sign is shown on
+  const attemptRef = useRef<PracticeAttempt | null>(null);
+  const [grade, setGrade] = useState<AttemptGrade | null>(null);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const nextTimerRef = useRef<ReturnType<typeof setTimeout>>(null);
+  const [hints, setHints] = useState<string[]>([]);
+  const hintsShownAtRef = useRef(0);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const requestRef = useRef<number>(null);
+  const thresholdsRef = useRef(profileThresholds(getActiveProfile()));
+
+  useEffect(() => {
+    // The writer's settings, calibration and recorded movements apply here too; the worker is shared, so it
+    // forgets the hands it was tracking
+    const userPack = loadUserPack();
+    registerSignPack(userPack);
+    detector.registerPack(userPack);
+    detector.configure({
+      dominantHand: settings.dominantHand,
+      thresholds: thresholdsRef.current,
+      smoothing: smoothingOptions(settings),
+      voting: votingOptions(settings),
+      historyMs: settings.historyMs,
+      detection: detectionOptions(settings),
+      bodyTracking: settings.bodyTracking,
+      debug: false,
+    });
+    detector.reset();
+
+    const unsubscribe = [
+      detector.on("result", handleDetection),
+      detector.on("error", ({request, message}) =>
+        console.warn(request === "frame" ? "Hand detection failed" : `The detection worker failed on "${request}"`, message)),
+      detector.on("bodyUnavailable", ({message}) => {
+        console.warn("Body tracking is unavailable", message);
+        setBodyTracking(false);
+      }),
+    ];
+    return () => {
+      unsubscribe.forEach((off) => off());
+      if (nextTimerRef.current) clearTimeout(nextTimerRef.current);
+      stopCamera();
+    };
+  }, []);
+
+  useEffect(() => {
+    const deckSigns = practiceSigns(deck, {bodyTracking});
+    signsRef.current = deckSigns;
+    setSigns(deckSigns);
+    setOmitted(practiceSigns(deck).length - deckSigns.length);
+    detector.configure({inputMode: DECK_INPUT_MODES[deck]});
+    showSign(pickNextSign(deckSigns, progressRef.current));
+  }, [deck, bodyTracking]);
+
+  function showSign(sign: PracticeSign | null) {
+    if (nextTimerRef.current) clearTimeout(nextTimerRef.current);
+    targetRef.current = sign;
+    attemptRef.current = null;
+    setTarget(sign);
+    setGrade(null);
+    setFeedback(null);
+    setHints([]);
+  }
+
+  function nextSign() {
+    showSign(pickNextSign(signsRef.current, progressRef.current, targetRef.current?.key ?? null));
+  }
+
+  function updateProgress(next: PracticeProgress) {
+    progressRef.current = next;
+    setProgress(next);
+    saveProgress(next);
+  }
+
+  // Records the attempt, shows how it went, then moves on
+  function finishAttempt(sign: PracticeSign, correct: boolean, ms: number) {
+    attemptRef.current = null;
+    targetRef.current = null; // no grading while the feedback shows
+    updateProgress(recordAttempt(progressRef.current, sign.key, {correct, ms}));
+    setFeedback({sign, correct, ms});
+    setHints([]);
+    if (correct && navigator.vibrate) navigator.vibrate(50);
+    nextTimerRef.current = setTimeout(() => {
+      showSign(pickNextSign(signsRef.current, progressRef.current, sign.key));
+    }, FEEDBACK_MS);
+  }
+
+  // A skipped sign counts as missed once the learner has seen it on camera
+  function skip() {
+    const attempt = attemptRef.current;
+    if (attempt && targetRef.current) {
+      attempt.miss();
+      finishAttempt(targetRef.current, false, performance.now() - attempt.start);
+    } else {
+      nextSign();
+    }
+  }
+
+  function resetProgress() {
+    if (!confirm("Forget your practice results?")) return;
+    updateProgress({});
+  }
+
+  function stopCamera() {
+    if (requestRef.current) cancelAnimationFrame(requestRef.current);
+    closeCamera(videoRef.current);
+    attemptRef.current = null; // timing restarts with the camera
+  }
+
+  async function toggleWebcam() {
+    if (webcamRunning) {
+      setWebcamRunning(false);
+      stopCamera();
+    } else {
+      setCameraError(null);
+      let stream: MediaStream;
+      try {
+        stream = await openCamera();
+      } catch (e) {
+        setCameraError((e as Error).message);
+        return;
+      }
+      setWebcamRunning(true);
+      if (videoRef.current) {
+        videoRef.current.srcObject = stream;
+        videoRef.current.addEventListener("loadeddata", predictWebcam);
+      }
+    }
+  }
+
+  function predictWebcam() {
+    const video = videoRef.current;
+    if (!video?.srcObject) return;
+    detector.detect(video, performance.now()).catch((e) => console.warn("Could not grab a video frame", e));
+    requestRef.current = requestAnimationFrame(predictWebcam);
+  }
+
+  function handleDetection(result: DetectionResult) {
+    const video = videoRef.current;
+    const canvas = canvasRef.current;
+    if (!video?.srcObject || !canvas) return;
+
+    if (video.videoWidth > 0) {
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+    }
+    const ctx = canvas.getContext("2d");
+    if (ctx) {
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const drawingUtils = new DrawingUtils(ctx);
+      const drawHand = (hand: DetectedHand | null, color: string) => {
+        if (!hand) return;
+        drawingUtils.drawConnectors(hand.landmarks, HandLandmarker.HAND_CONNECTIONS, {color, lineWidth: 2});
+        drawingUtils.drawLandmarks(hand.landmarks, {color: "#FF0000", lineWidth: 1});
+      };
+      drawHand(result.hands.dominant, "rgba(0,255,0,0.5)");
+      drawHand(result.hands.nonDominant, "rgba(0,128,255,0.5)");
+    }
+
+    const sign = targetRef.current;
+    if (!sign) return;
+    if (sign.location && !result.body) {
+      attemptRef.current = null; // timing starts once the face and shoulders are in view
+      setGrade(null);
+      setHints(BODY_HINTS);
+      return;
+    }
+    const attempt = attemptRef.current ?? (attemptRef.current = new PracticeAttempt(sign, result.time));
+    const next = attempt.push(result.token, result.time);
+    // Re-render when the status, what is seen, or the hold (in tenths) changes
+    setGrade((prev) => prev && prev.status === next.status && prev.seen?.value === next.seen?.value &&
+    Math.round(prev.progress * 10) === Math.round(next.progress * 10) ? prev : next);
+
+    if (next.status === "correct" || next.status === "missed") {
+      finishAttempt(sign, next.status === "correct", next.elapsed);
+    } else if (result.time - hintsShownAtRef.current > HINT_REFRESH_MS) {
+      hintsShownAtRef.current = result.time;
+      setHints(hintsFor(sign, result, next));
+    }
+  }
+
+  // What keeps the signing hand from the target: the failed checks of the closest variant of the sign.
+  // Movements need the hand's history, which stays in the worker, so they get no hints
+  function hintsFor(sign: PracticeSign, {hands, body}: DetectionResult, grade: AttemptGrade): string[] {
+    const {dominant, nonDominant} = hands;
+    if (grade.status === "holding" || sign.motion) return [];
+    if (!dominant) return ["Show your signing hand to the camera"];
+    if (sign.twoHanded && !nonDominant) return ["Show both hands to the camera"];
+    const thresholds = thresholdsRef.current;
+    const other = nonDominant && {...nonDominant, thresholds, body};
+    const failures = sign.variants
+      .map((variant) => explainSign(variant, {...dominant, thresholds, body}, other))
+      .reduce((best, f) => (f.length < best.length ? f : best));
+    return failures.slice(0, MAX_HINTS);
+  }
+
+  const practised = signs.filter((sign) => progress[sign.key]?.attempts);
+  const totals = practised.reduce((sum, sign) => ({
+    attempts: sum.attempts + progress[sign.key].attempts,
+    correct: sum.correct + progress[sign.key].correct,
+  }), {attempts: 0, correct: 0});
+
+  return (
+    <div className="flex flex-col items-center w-full gap-6">
+
+      {/* --- TARGET --- */}
+      <div className="w-full max-w-[640px] bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+        <div className="flex justify-between items-end mb-4">
+          <h3 className="text-gray-500 text-sm font-bold uppercase tracking-wider">Make This Sign</h3>
+          <div className="flex rounded overflow-hidden border border-gray-200">
+            {PRACTICE_DECKS.map(({value, label}) => (
+              <button key={value} onClick={() => setDeck(value)}
+                      className={`px-2 py-1 text-sm font-medium ${
+                        deck === value ? "bg-[#007f8b] text-white" : "bg-gray-100 hover:bg-gray-200"
+                      }`}>
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {omitted > 0 && (
+          <p className="-mt-2 mb-3 text-xs text-gray-400">
+            {omitted} sign{omitted > 1 ? "s" : ""} made at the face or body {omitted > 1 ? "are" : "is"} left out
+            {settings.bodyTracking
+              ? " because body tracking could not be loaded."
+              : ": turn on Track face and body in the writer's settings to practise them."}
+          </p>
+        )}
+
+        {!target ? (
+          <p className="text-sm text-gray-400">No signs to practise in this deck.</p>
+        ) : (
+          <div className="flex gap-6 items-start">
+            <span className="text-6xl font-bold text-gray-800 w-28 text-center shrink-0">{target.value}</span>
+            <SignReference sign={target}/>
+          </div>
+        )}
+
+        <div className="mt-4 min-h-[48px] text-sm">
+          {feedback ? (
+            <p className={`font-bold ${feedback.correct ? "text-green-600" : "text-red-500"}`}>
+              {feedback.correct ? `✓ Correct in ${formatSeconds(feedback.ms)}` : `✗ Missed ${feedback.sign.value}`}
+            </p>
+          ) : !webcamRunning ? (
+            <p className="text-gray-400">Start the camera to be graded.</p>
+          ) : (
+            <>
+              <div className="h-2 bg-gray-100 rounded overflow-hidden">
+                <div className="h-full bg-green-500 transition-all duration-75" style={{width: `${(grade?.progress ?? 0) * 100}%`}}/>
+              </div>
+              <p className="mt-2 text-gray-500">
+                {grade?.status === "holding"
+                  ? `Hold it for ${formatSeconds(PRACTICE_HOLD_MS)}…`
+                  : grade?.seen ? <>Seeing <span className="font-mono font-bold">{grade.seen.value}</span></> : "Waiting for the sign…"}
+                {grade && <span className="ml-2 text-gray-400">{formatSeconds(grade.elapsed)}</span>}
+              </p>
+              {hints.map((hint) => <p key={hint} className="text-yellow-700 text-xs">{hint}</p>)}
+            </>
+          )}
+        </div>
+
+        <div className="mt-2 flex justify-end">
+          <button onClick={skip} disabled={!target || !!feedback} className="text-sm text-gray-500 hover:underline disabled:opacity-40">
+            Skip
+          </button>
+        </div>
+      </div>
+
+      {/* --- CAMERA AREA --- */}
+      <div
+        className="relative w-full max-w-[640px] aspect-video bg-black rounded-2xl overflow-hidden shadow-2xl border-4 border-white">
+        {!webcamRunning && (
+          <div className="absolute inset-0 flex flex-col items-center justify-center text-white/50 z-20 bg-black/80">
+            <button onClick={toggleWebcam}
+                    className="bg-[#007f8b] text-white px-6 py-3 rounded-full font-bold hover:scale-105 transition">
+              Start Camera
+            </button>
+            {cameraError && <p className="mt-4 max-w-sm text-center text-sm text-red-300">{cameraError}</p>}
+          </div>
+        )}
+
+        <video ref={videoRef} autoPlay playsInline muted
+               className={`absolute inset-0 w-full h-full object-cover ${settings.mirrorVideo ? "transform -scale-x-100" : ""}`}/>
+        <canvas ref={canvasRef}
+                className={`absolute inset-0 w-full h-full object-cover pointer-events-none ${settings.mirrorVideo ? "transform -scale-x-100" : ""}`}/>
+      </div>
+      {detector.delegate === "CPU" && (
+        <p className="-mt-4 text-xs text-gray-400">
+          Hand tracking is running on the CPU because WebGL isn't available, so it may be slower.
+        </p>
+      )}
+
+      {/* --- PROGRESS --- */}
+      <div className="w-full max-w-[640px] bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+        <div className="flex justify-between items-end mb-2">
+          <h3 className="text-gray-500 text-sm font-bold uppercase tracking-wider">Your Progress</h3>
+          <span className="text-xs text-gray-400">
+            {practised.length}/{signs.length} practised
+            {totals.attempts > 0 && ` · ${Math.round((100 * totals.correct) / totals.attempts)}% correct`}
+          </span>
+        </div>
+        <table className="w-full text-sm">
+          <thead>
+          <tr className="text-left text-xs text-gray-400 uppercase">
+            <th className="font-semibold py-1">Sign</th>
+            <th className="font-semibold">Attempts</th>
+            <th className="font-semibold">Correct</th>
+            <th className="font-semibold">Avg. time</th>
+            <th className="font-semibold">Streak</th>
+          </tr>
+          </thead>
+          <tbody>
+          {signs.map((sign) => {
+            const stats = progress[sign.key];
+            const average = stats && averageMsOf(stats);
+            return (
+              <tr key={sign.key} className={`border-t border-gray-100 ${sign.key === target?.key ? "bg-[#007f8b]/10" : ""}`}>
+                <td className="py-1 font-mono font-bold">{sign.value}</td>
+                <td>{stats?.attempts ?? "–"}</td>
+                <td>{stats ? `${Math.round(100 * accuracyOf(stats))}%` : "–"}</td>
+                <td>{average ? formatSeconds(average) : "–"}</td>
+                <td>{stats?.streak ?? "–"}</td>
+              </tr>
+            );
+          })}
+          </tbody>
+        </table>
+        <p className="text-xs text-gray-400 mt-3">
+          Signs you miss, are slow at or haven't tried come up more often. Results are kept on this device.
+        </p>
+        <button onClick={resetProgress} disabled={Object.keys(progress).length === 0}
+                className="mt-2 text-red-500 text-sm hover:underline disabled:opacity-40 disabled:no-underline">
+          Reset Progress
+        </button>
+      </div>
+    </div>
+  );
+}
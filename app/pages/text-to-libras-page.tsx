@@ -0,0 +1,56 @@
+import {useEffect, useMemo, useState} from "react";
+import {Link} from "react-router";
+import {DEFAULT_SETTINGS, loadSettings} from "~/components/settings";
+import {getSigns, registerSignPack} from "~/components/sign-engine";
+import {loadUserPack} from "~/components/motion-templates";
+import type {SignPack} from "~/components/sign-definitions";
+import {SignPlayer} from "~/components/sign-player";
+import {textToSigns} from "~/components/text-to-libras";
+
+const EXAMPLE = "Oi, tudo bem?";
+
+export function TextToLibrasPage() {
+  const [text, setText] = useState(EXAMPLE);
+  // Same signing hand and mirroring as the writer; read after hydration, like the writer does
+  const [settings, setSettings] = useState(DEFAULT_SETTINGS);
+  // Words recorded in the writer can be shown too
+  const [userPack, setUserPack] = useState<SignPack | null>(null);
+  const {steps, skipped} = useMemo(() => textToSigns(text), [text, userPack]);
+  const words = useMemo(() => [...new Set(getSigns((sign) => sign.type === "WORD").map((sign) => sign.value))], [userPack]);
+
+  useEffect(() => {
+    setSettings(loadSettings());
+    const pack = loadUserPack();
+    registerSignPack(pack);
+    setUserPack(pack);
+  }, []);
+
+  return (
+    <div className="min-h-screen bg-gray-50 flex flex-col items-center py-12 font-sans text-[#3d3d3d]">
+      <div className="max-w-3xl w-full px-4">
+        <h1 className="text-[#007f8b] text-4xl font-bold mb-6 text-center">
+          Text to LIBRAS
+        </h1>
+        <nav className="text-center -mt-4 mb-6 text-sm">
+          <Link to="/" className="text-[#007f8b] hover:underline">← Back to the writer</Link>
+        </nav>
+
+        <div className="flex flex-col items-center w-full gap-6">
+          <div className="w-full max-w-[640px] bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+            <h3 className="text-gray-500 text-sm font-bold uppercase tracking-wider mb-2">Text</h3>
+            <textarea value={text} onChange={(e) => setText(e.target.value)} rows={2}
+                      placeholder="Type Portuguese text to see it signed"
+                      className="w-full bg-gray-50 rounded-lg p-3 text-xl font-mono text-gray-800 border-2 border-dashed border-gray-200"/>
+            <p className="text-xs text-gray-400 mt-2">
+              Known words ({words.join(", ")}) are signed as words; everything else is fingerspelled, and numbers
+              digit by digit.
+              {skipped.length > 0 && <span className="text-yellow-700"> No sign for: {skipped.join(" ")}</span>}
+            </p>
+          </div>
+
+          <SignPlayer steps={steps} dominantHand={settings.dominantHand} mirror={settings.mirrorVideo}/>
+        </div>
+      </div>
+    </div>
+  );
+}
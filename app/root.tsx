@@ -9,9 +9,12 @@ import {
 
 import type { Route } from "./+types/root";
 import "./app.css";
-import type {ReactNode} from "react";
+import {type ReactNode, useEffect} from "react";
+import {registerServiceWorker} from "~/components/offline";
 
 export const links: Route.LinksFunction = () => [
+  { rel: "manifest", href: "/manifest.webmanifest" },
+  { rel: "icon", href: "/icon.svg", type: "image/svg+xml" },
   { rel: "preconnect", href: "https://fonts.googleapis.com" },
   {
     rel: "preconnect",
@@ -31,6 +34,7 @@ export function Layout({ children }: { children: ReactNode }) {
         <title>Hand's Speak</title>
         <meta charSet="utf-8" />
         <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <meta name="theme-color" content="#007f8b" />
         <Meta />
         <Links />
       </head>
@@ -44,6 +48,10 @@ export function Layout({ children }: { children: ReactNode }) {
 }
 
 export default function App() {
+  useEffect(() => {
+    registerServiceWorker();
+  }, []);
+
   return <Outlet />;
 }
 
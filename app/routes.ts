@@ -1,3 +1,7 @@
-import { type RouteConfig, index } from "@react-router/dev/routes";
+import { type RouteConfig, index, route } from "@react-router/dev/routes";
 
-export default [index("routes/home.tsx")] satisfies RouteConfig;
+export default [
+  index("routes/home.tsx"),
+  route("practice", "routes/practice.tsx"),
+  route("text-to-libras", "routes/text-to-libras.tsx"),
+] satisfies RouteConfig;
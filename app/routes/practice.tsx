@@ -0,0 +1,13 @@
+import type {Route} from "./+types/practice";
+import {PracticePage} from "~/pages/practice-page";
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    {title: "Practice LIBRAS · Hand's Speak"},
+    {name: "description", content: "Practise LIBRAS letters, numbers and words with live feedback."},
+  ];
+}
+
+export default function Practice() {
+  return <PracticePage/>;
+}
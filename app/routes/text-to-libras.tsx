@@ -0,0 +1,13 @@
+import type {Route} from "./+types/text-to-libras";
+import {TextToLibrasPage} from "~/pages/text-to-libras-page";
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    {title: "Text to LIBRAS · Hand's Speak"},
+    {name: "description", content: "See Portuguese text fingerspelled and signed in LIBRAS."},
+  ];
+}
+
+export default function TextToLibras() {
+  return <TextToLibrasPage/>;
+}
@@ -0,0 +1,76 @@
+// Service worker: keeps the app, the MediaPipe runtime and the landmark models cached so the app runs
+// offline once it has been opened. Registered by app/components/offline.ts in production builds.
+//
+// - Build assets (hashed), /mediapipe and the CDN copies: cache first, they never change under the same URL.
+//   Bump CACHE_VERSION when the files under /mediapipe are replaced.
+// - Pages and everything else from the app: network first, so deploys show up, with the cache when offline.
+
+const CACHE_VERSION = 1;
+const CACHE = `hand-speak-v${CACHE_VERSION}`;
+
+// Cross-origin files worth keeping: the landmarker's CDN fallback and the web font
+const CACHED_HOSTS = ["cdn.jsdelivr.net", "storage.googleapis.com", "fonts.googleapis.com", "fonts.gstatic.com"];
+
+self.addEventListener("install", () => self.skipWaiting());
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names.filter((name) => name.startsWith("hand-speak-") && name !== CACHE).map((name) => caches.delete(name)));
+    await self.clients.claim(); // cache the rest of this visit's requests too
+  })());
+});
+
+// The page sends what it loaded before this worker was in control; missing files (e.g. no local model) are skipped
+self.addEventListener("message", (event) => {
+  if (event.data?.type !== "precache") return;
+  event.waitUntil((async () => {
+    const cache = await caches.open(CACHE);
+    const missing = [];
+    for (const url of event.data.urls) {
+      if (!(await cache.match(url))) missing.push(url);
+    }
+    await Promise.allSettled(missing.map((url) => cache.add(url)));
+  })());
+});
+
+function isImmutable(url) {
+  if (url.origin !== self.location.origin) return CACHED_HOSTS.includes(url.hostname);
+  return url.pathname.startsWith("/assets/") || url.pathname.startsWith("/mediapipe/");
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+async function networkFirst(request) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(CACHE);
+      await cache.put(request, response.clone());
+    }
+    return response;
+  } catch (e) {
+    const cached = await caches.match(request, {ignoreSearch: request.mode === "navigate"});
+    // Every route renders the same app shell, so any page works when this one was never visited
+    const fallback = cached ?? (request.mode === "navigate" ? await caches.match("/") : undefined);
+    if (fallback) return fallback;
+    throw e;
+  }
+}
+
+self.addEventListener("fetch", (event) => {
+  const {request} = event;
+  if (request.method !== "GET") return;
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin && !CACHED_HOSTS.includes(url.hostname)) return;
+  event.respondWith(isImmutable(url) ? cacheFirst(request) : networkFirst(request));
+});
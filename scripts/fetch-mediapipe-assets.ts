@@ -0,0 +1,51 @@
+// Puts the MediaPipe runtime and the hand and pose landmark models under public/mediapipe, so the app serves
+// them itself and works offline and on networks that block the CDNs. Runs before `dev` and `build`.
+//
+//   npm run assets [-- --force]
+//
+// The wasm files are copied from node_modules (always the version the app is built against). The models
+// aren't on npm: they are downloaded once, or can be put under public/mediapipe by hand.
+// Without them the app falls back to loading the models from the CDN.
+import {copyFileSync, existsSync, mkdirSync, readdirSync, writeFileSync} from "node:fs";
+import {dirname, join} from "node:path";
+import {fileURLToPath} from "node:url";
+
+const MODELS = [
+  {
+    name: "hand landmark model",
+    file: "hand_landmarker.task",
+    url: "https://storage.googleapis.com/mediapipe-models/hand_landmarker/hand_landmarker/float16/1/hand_landmarker.task",
+  },
+  {
+    name: "pose landmark model",
+    file: "pose_landmarker_lite.task",
+    url: "https://storage.googleapis.com/mediapipe-models/pose_landmarker/pose_landmarker_lite/float16/1/pose_landmarker_lite.task",
+  },
+];
+
+const root = join(dirname(fileURLToPath(import.meta.url)), "..");
+const target = join(root, "public", "mediapipe");
+const force = process.argv.includes("--force");
+
+const wasmSource = join(root, "node_modules", "@mediapipe", "tasks-vision", "wasm");
+mkdirSync(join(target, "wasm"), {recursive: true});
+for (const file of readdirSync(wasmSource)) copyFileSync(join(wasmSource, file), join(target, "wasm", file));
+console.log(`Copied the MediaPipe wasm runtime to ${join(target, "wasm")}`);
+
+for (const {name, file, url} of MODELS) {
+  const modelFile = join(target, file);
+  if (existsSync(modelFile) && !force) {
+    console.log(`The ${name} is already at ${modelFile}`);
+    continue;
+  }
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    writeFileSync(modelFile, Buffer.from(await response.arrayBuffer()));
+    console.log(`Downloaded the ${name} to ${modelFile}`);
+  } catch (e) {
+    // Not fatal: the app then loads the model from the CDN
+    console.warn(`Could not download the ${name} (${(e as Error).message}).`);
+    console.warn(`The app will load it from the CDN; to serve it locally, save ${url} as ${modelFile}`);
+  }
+}
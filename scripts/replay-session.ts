@@ -0,0 +1,60 @@
+// Replays recorded signing sessions through the recognizer, no camera or browser needed.
+//
+//   npm run replay -- <recording.jsonl> [more recordings...] [--json] [--model <model.json>]
+//
+// Prints the token stream and the final transcript for each recording. Recordings whose header
+// has an `expectedTranscript` are checked against it and the process exits non-zero on mismatch.
+// --model fuses a trained handshape model (exported from the app) with the rules.
+import {readFileSync} from "node:fs";
+import {parseRecording} from "../app/components/session-recording";
+import {replaySession, type ReplayStep} from "../app/components/session-replay";
+import {parseModel, SignClassifier} from "../app/components/sign-classifier";
+
+const args = process.argv.slice(2);
+const asJson = args.includes("--json");
+const modelIndex = args.indexOf("--model");
+const modelFile = modelIndex === -1 ? undefined : args[modelIndex + 1];
+const files = args.filter((a, i) => !a.startsWith("--") && (modelIndex === -1 || i !== modelIndex + 1));
+
+if (files.length === 0 || (modelIndex !== -1 && !modelFile)) {
+  console.error("Usage: npm run replay -- <recording.jsonl> [more recordings...] [--json] [--model <model.json>]");
+  process.exit(2);
+}
+
+const classifier = modelFile ? new SignClassifier(parseModel(readFileSync(modelFile, "utf8"))) : null;
+
+function formatStep(step: ReplayStep): string {
+  const token = step.token
+    ? `${step.token.type} ${step.token.value} ${step.token.confidence.toFixed(2)}`
+    : "-";
+  const alternatives = step.alternatives.length
+    ? ` (or ${step.alternatives.map((alt) => `${alt.value} ${alt.confidence.toFixed(2)}`).join(", ")})`
+    : "";
+  const confirmed = step.confirmed ? `  => ${step.confirmed}` : "";
+  return `${step.t.toFixed(1).padStart(9)}ms  ${token}${alternatives}${confirmed}`;
+}
+
+let failures = 0;
+
+for (const file of files) {
+  const recording = parseRecording(readFileSync(file, "utf8"));
+  const {transcript, steps} = replaySession(recording, {}, classifier);
+  const expected = recording.header.expectedTranscript;
+  const passed = expected === undefined || expected === transcript;
+  if (!passed) failures++;
+
+  if (asJson) {
+    console.log(JSON.stringify({file, transcript, expectedTranscript: expected, passed, steps}));
+    continue;
+  }
+
+  console.log(`# ${file}${recording.header.label ? ` (${recording.header.label})` : ""}`);
+  for (const step of steps) console.log(formatStep(step));
+  console.log(`transcript: ${JSON.stringify(transcript)}`);
+  if (expected !== undefined) {
+    console.log(passed ? "PASS" : `FAIL: expected ${JSON.stringify(expected)}`);
+  }
+  console.log();
+}
+
+process.exit(failures > 0 ? 1 : 0);
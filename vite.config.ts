@@ -1,8 +1,17 @@
+import { readFileSync } from "node:fs";
 import { reactRouter } from "@react-router/dev/vite";
 import tailwindcss from "@tailwindcss/vite";
 import { defineConfig } from "vite";
 import tsconfigPaths from "vite-tsconfig-paths";
 
+// The CDN fallback must serve the same MediaPipe runtime as the installed package (see hand-landmarker.ts)
+const tasksVision = JSON.parse(
+  readFileSync(new URL("./node_modules/@mediapipe/tasks-vision/package.json", import.meta.url), "utf8")
+);
+
 export default defineConfig({
   plugins: [tailwindcss(), reactRouter(), tsconfigPaths()],
+  define: {
+    __TASKS_VISION_VERSION__: JSON.stringify(tasksVision.version),
+  },
 });